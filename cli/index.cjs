@@ -3,7 +3,7 @@
 /**
  * Cloudflare Kit CLI
  *
- * Simple commands to create, run, and deploy Cloudflare Workers projects.
+ * Simple commands to create, run, deploy and migrate Cloudflare Workers projects.
  */
 
 const fs = require("fs");
@@ -29,6 +29,7 @@ function createProject(name) {
 
     fs.mkdirSync(name, { recursive: true });
     fs.mkdirSync(path.join(name, "src"), { recursive: true });
+    fs.mkdirSync(path.join(name, "migrations"), { recursive: true });
 
     // Create package.json
     const packageJson = {
@@ -39,7 +40,9 @@ function createProject(name) {
             dev: "wrangler dev",
             deploy: "wrangler deploy",
             types: "wrangler types",
-            "db:migrate": "wrangler d1 migrations apply DB --local",
+            "db:migrate": "cloudflare-kit migrate up",
+            "db:rollback": "cloudflare-kit migrate down",
+            "db:status": "cloudflare-kit migrate status",
         },
         dependencies: {
             "cloudflare-kit": "^4.0.1",
@@ -153,12 +156,27 @@ export default {
 
     fs.writeFileSync(path.join(name, "src", "index.ts"), indexTs);
 
+    // First migration, applied with `npm run db:migrate`
+    const initialMigration = `-- migrate:up
+CREATE TABLE IF NOT EXISTS users (
+  id INTEGER PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- migrate:down
+DROP TABLE users;
+`;
+
+    fs.writeFileSync(path.join(name, "migrations", "0001_create_users.sql"), initialMigration);
+
     console.log("\n✅ Project created successfully!");
     console.log(`\nNext steps:`);
     console.log(`  cd ${name}`);
     console.log(`  npm install`);
     console.log(`  npx wrangler login`);
     console.log(`  npm run types   # generate Env types from wrangler.jsonc`);
+    console.log(`  npm run db:migrate   # apply migrations/ to the local D1 database`);
     console.log(`  npm run dev`);
 }
 
@@ -182,6 +200,92 @@ function deployProject() {
     }
 }
 
+function parseFlags(args) {
+    const flags = { dir: "migrations", binding: "DB", dryRun: false, mock: false };
+    for (let i = 0; i < args.length; i++) {
+        const flag = args[i];
+        if (flag === "--dry-run") flags.dryRun = true;
+        else if (flag === "--mock") flags.mock = true;
+        else if (flag === "--to") flags.to = Number(args[++i]);
+        else if (flag === "--dir") flags.dir = args[++i];
+        else if (flag === "--binding") flags.binding = args[++i];
+        else throw new Error(`Unknown option: ${flag}`);
+    }
+    if (flags.to !== undefined && !(Number.isInteger(flags.to) && flags.to >= 0)) {
+        throw new Error("--to must be a migration version (0 or more)");
+    }
+    return flags;
+}
+
+function loadMigrations(dir) {
+    const { parseMigrationFile } = require("../dist/index.cjs");
+    if (!fs.existsSync(dir)) {
+        throw new Error(`Migrations directory not found: ${dir}`);
+    }
+    return fs
+        .readdirSync(dir)
+        .filter((file) => file.endsWith(".sql"))
+        .sort()
+        .map((file) => parseMigrationFile(file, fs.readFileSync(path.join(dir, file), "utf8")));
+}
+
+// Local D1 through wrangler's platform proxy (the state `wrangler dev` uses), or the in-memory mock
+async function openDatabase(flags) {
+    if (flags.mock) {
+        const { createMockD1 } = require("../dist/testing/index.cjs");
+        return { binding: createMockD1(), dispose: async () => {} };
+    }
+
+    let wrangler;
+    try {
+        wrangler = require(require.resolve("wrangler", { paths: [process.cwd()] }));
+    } catch (error) {
+        throw new Error("wrangler is required to reach the local D1 database: npm install -D wrangler");
+    }
+    const proxy = await wrangler.getPlatformProxy();
+    const binding = proxy.env[flags.binding];
+    if (!binding) {
+        await proxy.dispose();
+        throw new Error(`No D1 binding named ${flags.binding} in the wrangler config`);
+    }
+    return { binding, dispose: () => proxy.dispose() };
+}
+
+async function migrate(action, args) {
+    const flags = parseFlags(args);
+    const { createDatabase, createMigrator } = require("../dist/index.cjs");
+    const migrations = loadMigrations(flags.dir);
+    const database = await openDatabase(flags);
+
+    try {
+        const migrator = createMigrator(createDatabase({ binding: database.binding }), { migrations });
+
+        if (action === "status") {
+            for (const entry of await migrator.status()) {
+                const mark = entry.applied ? (entry.checksumMatches ? "x" : "!") : " ";
+                const applied = entry.appliedAt ? `  (applied ${entry.appliedAt})` : "";
+                console.log(`[${mark}] ${String(entry.version).padStart(4, "0")} ${entry.name}${applied}`);
+            }
+            return;
+        }
+
+        const options = { to: flags.to, dryRun: flags.dryRun };
+        const result = action === "down" ? await migrator.rollback(options) : await migrator.migrate(options);
+        if (result.steps.length === 0) {
+            console.log(action === "down" ? "Nothing to roll back." : "No pending migrations.");
+            return;
+        }
+        for (const step of result.steps) {
+            const verb = action === "down" ? "Rolled back" : "Applied";
+            console.log(`${flags.dryRun ? "Would run" : verb} ${String(step.version).padStart(4, "0")} ${step.name}`);
+            if (flags.dryRun) step.statements.forEach((statement) => console.log(`    ${statement};`));
+        }
+        if (flags.mock) console.log("(in-memory mock database: nothing was persisted)");
+    } finally {
+        await database.dispose();
+    }
+}
+
 function showHelp() {
     console.log(`
 Cloudflare Kit CLI
@@ -193,12 +297,23 @@ Commands:
   create <name>     Create a new project
   run              Run development server (alias: dev)
   deploy           Deploy to Cloudflare
+  migrate [up|down|status]
+                   Apply, roll back or list D1 migrations (default: up)
   help             Show this help message
 
+Migrate options:
+  --to <version>   Stop at this version (up) or return to it (down, 0 for none)
+  --dry-run        Show the pending SQL without running it
+  --dir <path>     Migration files named 0001_name.sql (default: migrations)
+  --binding <name> D1 binding in the wrangler config (default: DB)
+  --mock           Run against the in-memory createMockD1() instead of local D1
+
 Examples:
   npx cloudflare-kit create my-api
   npx cloudflare-kit run
   npx cloudflare-kit deploy
+  npx cloudflare-kit migrate up --dry-run
+  npx cloudflare-kit migrate down --to 3
 `);
 }
 
@@ -214,6 +329,19 @@ switch (command) {
     case "deploy":
         deployProject();
         break;
+    case "migrate": {
+        const action = arg && !arg.startsWith("-") ? arg : "up";
+        const rest = process.argv.slice(arg === action ? 4 : 3);
+        if (!["up", "down", "status"].includes(action)) {
+            console.error(`Unknown migrate action: ${action}`);
+            process.exit(1);
+        }
+        migrate(action, rest).catch((error) => {
+            console.error(`Migration failed: ${error.message}`);
+            process.exit(1);
+        });
+        break;
+    }
     case "help":
     default:
         showHelp();
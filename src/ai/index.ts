@@ -5,6 +5,9 @@
  * Supports text generation, embeddings, streaming, and AI Gateway.
  */
 
+import { raceSignal } from "../core/abort";
+import { traceHeaders, type TraceContext } from "../core/trace";
+
 /**
  * Workers AI binding interface
  */
@@ -22,6 +25,10 @@ export interface AiRunOptions {
     cacheKey?: string;
     /** AI Gateway to route this invocation through. */
     gateway?: { id: string };
+    /** Cancel the invocation (default: the service's signal) */
+    signal?: AbortSignal;
+    /** Extra request headers, forwarded to AI Gateway */
+    extraHeaders?: Record<string, string>;
 }
 
 /**
@@ -37,6 +44,10 @@ export interface AIOptions {
         /** Optional cache key prefix */
         cacheKey?: string;
     };
+    /** Abort signal (e.g. `ctx.signal`) passed to every model invocation */
+    signal?: AbortSignal;
+    /** Trace sent as `traceparent` and `X-Request-Id` with every invocation (e.g. `ctx.get("trace")`) */
+    trace?: TraceContext;
 }
 
 /**
@@ -53,6 +64,10 @@ export interface AIService {
     stream(prompt: string, model?: string): Promise<ReadableStream>;
     /** Extract text from an image */
     imageToText(imageData: ArrayBuffer, model?: string): Promise<string>;
+    /** Copy of this service whose invocations are cancelled by `signal` */
+    withSignal(signal: AbortSignal): AIService;
+    /** Copy of this service whose invocations carry `trace` to AI Gateway */
+    withTrace(trace: TraceContext): AIService;
 }
 
 /**
@@ -134,8 +149,12 @@ export function createAI(options: AIOptions): AIService {
      * Passes the configured AI Gateway using the Workers AI run options.
      */
     async function run<T>(model: string, inputs: unknown, runOptions?: AiRunOptions): Promise<T> {
+        const signal = runOptions?.signal ?? options.signal;
+        const extraHeaders = { ...traceHeaders(options.trace), ...runOptions?.extraHeaders };
         const mergedOptions: AiRunOptions = {
             ...runOptions,
+            ...(signal && { signal }),
+            ...(Object.keys(extraHeaders).length > 0 && { extraHeaders }),
         };
 
         if (gateway?.cacheKey) {
@@ -145,7 +164,8 @@ export function createAI(options: AIOptions): AIService {
             mergedOptions.gateway = { id: gateway.id };
         }
 
-        return await binding.run<T>(model, inputs, mergedOptions);
+        signal?.throwIfAborted();
+        return await raceSignal(binding.run<T>(model, inputs, mergedOptions), signal);
     }
 
     /**
@@ -217,6 +237,8 @@ export function createAI(options: AIOptions): AIService {
         embed,
         stream,
         imageToText,
+        withSignal: (signal: AbortSignal) => createAI({ ...options, signal }),
+        withTrace: (trace: TraceContext) => createAI({ ...options, trace }),
     };
 }
 
@@ -0,0 +1,70 @@
+/**
+ * HMAC and base64url primitives shared by JWTs and CSRF tokens
+ */
+
+export function bytesToBase64Url(bytes: Uint8Array): string {
+    let binary = "";
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]!);
+    }
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
+}
+
+export function base64UrlToBytes(str: string): Uint8Array {
+    const padding = "=".repeat((4 - (str.length % 4)) % 4);
+    const base64 = str.replace(/-/g, "+").replace(/_/g, "/") + padding;
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/**
+ * HMAC-SHA256 signature of `data`, base64url encoded
+ */
+export async function hmacSign(secret: string, data: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+    const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
+    return bytesToBase64Url(new Uint8Array(signature));
+}
+
+/**
+ * Verify a base64url HMAC-SHA256 signature (constant time via WebCrypto)
+ */
+export async function hmacVerify(secret: string, data: string, signature: string): Promise<boolean> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["verify"]);
+    return crypto.subtle.verify("HMAC", key, base64UrlToBytes(signature), encoder.encode(data));
+}
+
+/**
+ * Random base64url token with `byteLength` bytes of entropy
+ */
+export function randomToken(byteLength = 32): string {
+    return bytesToBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * Compare two strings without short-circuiting on the first difference
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+    const length = Math.max(a.length, b.length);
+    let diff = a.length ^ b.length;
+    for (let i = 0; i < length; i++) {
+        diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+    }
+    return diff === 0;
+}
+
+export function getCookie(header: string | null, name: string): string | undefined {
+    if (!header) return undefined;
+    const prefix = `${name}=`;
+    return header
+        .split(";")
+        .map((part) => part.trim())
+        .find((part) => part.startsWith(prefix))
+        ?.slice(prefix.length);
+}
@@ -0,0 +1,213 @@
+/**
+ * CSRF Protection
+ *
+ * Defends cookie-authenticated routes against cross-site form posts and fetches.
+ * Unsafe requests must pass an Origin / Sec-Fetch-Site check and carry a token:
+ * - "double-submit": a random token set in a readable cookie and echoed back in a header or form field
+ * - "synchronizer": a stateless token HMAC-bound to the session cookie, embedded by the server in forms
+ */
+
+import type { Middleware, Params, RequestContext } from "../core/types";
+import { errorResponse } from "../core/response";
+import { peekFormField } from "../core/body";
+import { ConfigError } from "../errors/index";
+import { getCookie, hmacSign, hmacVerify, randomToken, timingSafeEqual } from "./crypto";
+import type { SecretInput } from "./index";
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS", "TRACE"]);
+
+export interface CsrfCookieOptions {
+    path?: string;
+    domain?: string;
+    sameSite?: "Strict" | "Lax" | "None";
+    /** Default: true when the request is served over https */
+    secure?: boolean;
+    /** Lifetime in seconds (default: session cookie) */
+    maxAge?: number;
+}
+
+export interface CsrfOptions {
+    /** Token strategy (default: "double-submit") */
+    mode?: "double-submit" | "synchronizer";
+    /** HMAC secret; required for "synchronizer", signs the cookie token in "double-submit" when set */
+    secret?: SecretInput;
+    /** Session cookie synchronizer tokens are bound to (default: "session") */
+    sessionCookie?: string;
+    /** Cookie holding the double-submit token (default: "csrf_token") */
+    cookie?: string;
+    cookieOptions?: CsrfCookieOptions;
+    /** Request header carrying the token (default: "X-CSRF-Token") */
+    header?: string;
+    /** Form field carrying the token for urlencoded and multipart bodies (default: "_csrf") */
+    formField?: string;
+    /** Bytes of an unparsed form body read while looking for `formField`; larger forms must send the header (default: 64KB) */
+    maxFormSize?: number;
+    /** Extra origins allowed to send unsafe requests besides the app's own */
+    trustedOrigins?: string[];
+    /** Routes that skip CSRF checks: exact paths, patterns or a predicate */
+    exempt?: Array<string | RegExp> | ((context: RequestContext) => boolean);
+}
+
+/**
+ * Variables csrfProtection() stores for downstream handlers (`ctx.get("csrfToken")`)
+ */
+export interface CsrfVariables {
+    /** Token to embed in forms or hand to clients (undefined in synchronizer mode without a session) */
+    csrfToken: string | undefined;
+}
+
+function resolveSecret(input: SecretInput | undefined, env: Record<string, unknown>): string | undefined {
+    const secret = typeof input === "function" ? input(env) : input;
+    if (secret !== undefined && secret.length < 32) {
+        throw new ConfigError("CSRF secret must be at least 32 characters for security", "secret");
+    }
+    return secret;
+}
+
+function isExempt(exempt: CsrfOptions["exempt"], context: RequestContext): boolean {
+    if (!exempt) return false;
+    if (typeof exempt === "function") return exempt(context);
+    const path = context.url.pathname;
+    return exempt.some((rule) => (typeof rule === "string" ? rule === path : rule.test(path)));
+}
+
+function requestOrigin(request: Request): string | null {
+    const origin = request.headers.get("Origin");
+    if (origin && origin !== "null") return origin;
+    const referer = request.headers.get("Referer");
+    if (!referer) return origin;
+    try {
+        return new URL(referer).origin;
+    } catch {
+        return "null";
+    }
+}
+
+async function submittedToken(context: RequestContext, header: string, formField: string, maxFormSize: number): Promise<string | undefined> {
+    const fromHeader = context.request.headers.get(header);
+    if (fromHeader) return fromHeader;
+
+    // A body parser registered earlier has already read the form
+    const parsed = context.state.body;
+    if (parsed !== null && typeof parsed === "object") {
+        const value = (parsed as Record<string, unknown>)[formField];
+        return typeof value === "string" ? value : undefined;
+    }
+    return peekFormField(context.request, formField, maxFormSize);
+}
+
+function serializeCookie(name: string, value: string, options: CsrfCookieOptions, secureDefault: boolean): string {
+    const parts = [`${name}=${value}`, `Path=${options.path ?? "/"}`, `SameSite=${options.sameSite ?? "Lax"}`];
+    if (options.domain) parts.push(`Domain=${options.domain}`);
+    if (options.secure ?? secureDefault) parts.push("Secure");
+    if (options.maxAge !== undefined) parts.push(`Max-Age=${options.maxAge}`);
+    return parts.join("; ");
+}
+
+/**
+ * CSRF protection for cookie-authenticated routes
+ *
+ * Safe methods (GET, HEAD, OPTIONS, TRACE) and exempt routes pass through and receive a
+ * token in `ctx.get("csrfToken")`. Other methods are rejected with 403 when the Origin
+ * (or Referer) is foreign, `Sec-Fetch-Site` is "cross-site", or the token is missing or invalid.
+ * Form tokens come from `ctx.state.body` when a body parser ran first, otherwise from at most
+ * `maxFormSize` bytes of the body; a multipart `_csrf` field must precede any file input.
+ *
+ * @example
+ * ```typescript
+ * const app = createApp().use(csrfProtection({ mode: 'synchronizer', secret: (env) => env.CSRF_SECRET as string, sessionCookie: 'sid' }));
+ * app.get('/settings', (ctx) => htmlResponse(`<input type="hidden" name="_csrf" value="${ctx.get('csrfToken')}">`));
+ * ```
+ */
+export function csrfProtection(options: CsrfOptions = {}): Middleware<Record<string, unknown>, Params, {}, CsrfVariables> {
+    const mode = options.mode ?? "double-submit";
+    const cookieName = options.cookie ?? "csrf_token";
+    const sessionCookie = options.sessionCookie ?? "session";
+    const header = options.header ?? "X-CSRF-Token";
+    const formField = options.formField ?? "_csrf";
+    const maxFormSize = options.maxFormSize ?? 64 * 1024;
+    const trustedOrigins = new Set(options.trustedOrigins ?? []);
+
+    if (mode === "synchronizer" && options.secret === undefined) {
+        throw new ConfigError("csrfProtection synchronizer mode requires a secret", "secret");
+    }
+    if (typeof options.secret === "string") {
+        resolveSecret(options.secret, {});
+    }
+
+    /** Double-submit cookie value: a random nonce, HMAC-signed when a secret is configured */
+    const issueCookieToken = async (secret: string | undefined): Promise<string> => {
+        const nonce = randomToken();
+        return secret ? `${nonce}.${await hmacSign(secret, nonce)}` : nonce;
+    };
+
+    const isValidCookieToken = async (token: string, secret: string | undefined): Promise<boolean> => {
+        if (!secret) return token.length > 0;
+        const [nonce, signature] = token.split(".");
+        return Boolean(nonce && signature) && (await hmacVerify(secret, nonce!, signature!).catch(() => false));
+    };
+
+    /** Synchronizer token: a nonce plus an HMAC binding it to the session ID */
+    const issueSessionToken = async (secret: string, session: string): Promise<string> => {
+        const nonce = randomToken(16);
+        return `${nonce}.${await hmacSign(secret, `${session}.${nonce}`)}`;
+    };
+
+    const isValidSessionToken = async (token: string, secret: string, session: string): Promise<boolean> => {
+        const [nonce, signature] = token.split(".");
+        if (!nonce || !signature) return false;
+        return hmacVerify(secret, `${session}.${nonce}`, signature).catch(() => false);
+    };
+
+    return async (context: RequestContext, next): Promise<Response> => {
+        const { request } = context;
+        const secret = resolveSecret(options.secret, context.env);
+        const cookies = request.headers.get("Cookie");
+        const existingCookieToken = mode === "double-submit" ? getCookie(cookies, cookieName) : undefined;
+        const session = mode === "synchronizer" ? getCookie(cookies, sessionCookie) : undefined;
+
+        if (!SAFE_METHODS.has(request.method) && !isExempt(options.exempt, context)) {
+            const origin = requestOrigin(request);
+            const ownOrigin = context.url.origin;
+            const trusted = origin !== null && (origin === ownOrigin || trustedOrigins.has(origin));
+
+            if (origin !== null && !trusted) {
+                return errorResponse("Cross-origin request blocked", 403);
+            }
+            if (request.headers.get("Sec-Fetch-Site") === "cross-site" && !trusted) {
+                return errorResponse("Cross-site request blocked", 403);
+            }
+
+            const token = await submittedToken(context, header, formField, maxFormSize);
+            const valid =
+                token !== undefined &&
+                (mode === "double-submit"
+                    ? existingCookieToken !== undefined && timingSafeEqual(token, existingCookieToken) && (await isValidCookieToken(token, secret))
+                    : session !== undefined && (await isValidSessionToken(token, secret!, session)));
+
+            if (!valid) {
+                return errorResponse("CSRF token missing or invalid", 403);
+            }
+        }
+
+        let issuedCookie: string | undefined;
+        let csrfToken: string | undefined;
+        if (mode === "synchronizer") {
+            csrfToken = session ? await issueSessionToken(secret!, session) : undefined;
+        } else if (existingCookieToken && (await isValidCookieToken(existingCookieToken, secret))) {
+            csrfToken = existingCookieToken;
+        } else {
+            csrfToken = issuedCookie = await issueCookieToken(secret);
+        }
+
+        context.state.csrfToken = csrfToken;
+        const response = await next();
+        if (!issuedCookie) {
+            return response;
+        }
+
+        const headers = new Headers(response.headers);
+        headers.append("Set-Cookie", serializeCookie(cookieName, issuedCookie, options.cookieOptions ?? {}, context.url.protocol === "https:"));
+        return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+    };
+}
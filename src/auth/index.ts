@@ -6,28 +6,10 @@
  */
 
 import type { D1Database } from "../database/types";
-import type { Middleware, RequestContext } from "../core/types";
+import type { Middleware, Params, RequestContext } from "../core/types";
 import { AuthError, ConfigError } from "../errors/index";
 import { errorResponse } from "../core/response";
-
-function bytesToBase64Url(bytes: Uint8Array): string {
-    let binary = "";
-    for (let i = 0; i < bytes.length; i++) {
-        binary += String.fromCharCode(bytes[i]!);
-    }
-    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
-}
-
-function base64UrlToBytes(str: string): Uint8Array {
-    const padding = "=".repeat((4 - (str.length % 4)) % 4);
-    const base64 = str.replace(/-/g, "+").replace(/_/g, "/") + padding;
-    const binary = atob(base64);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) {
-        bytes[i] = binary.charCodeAt(i);
-    }
-    return bytes;
-}
+import { base64UrlToBytes, bytesToBase64Url, getCookie, hmacSign, hmacVerify } from "./crypto";
 
 function base64urlEncodeJson(value: unknown): string {
     const json = JSON.stringify(value);
@@ -154,11 +136,7 @@ export function createAuth(options: AuthOptions): AuthService {
                 const encodedPayload = base64urlEncodeJson(payload);
                 const data = `${encodedHeader}.${encodedPayload}`;
 
-                const encoder = new TextEncoder();
-                const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
-
-                const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
-                const encodedSignature = bytesToBase64Url(new Uint8Array(signature));
+                const encodedSignature = await hmacSign(secret, data);
                 const token = `${data}.${encodedSignature}`;
 
                 const resultUser: User = {
@@ -204,11 +182,7 @@ export function createAuth(options: AuthOptions): AuthService {
                 }
 
                 const data = `${encodedHeader}.${encodedPayload}`;
-                const encoder = new TextEncoder();
-                const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["verify"]);
-
-                const signatureBytes = base64UrlToBytes(encodedSignature);
-                const isValid = await crypto.subtle.verify("HMAC", key, signatureBytes, encoder.encode(data));
+                const isValid = await hmacVerify(secret, data, encodedSignature);
 
                 if (!isValid) {
                     return { success: false, error: "Invalid token signature" };
@@ -299,6 +273,14 @@ export function createAuth(options: AuthOptions): AuthService {
     };
 }
 
+/**
+ * Variables requireAuth() stores for downstream handlers (`ctx.get("user")`)
+ */
+export interface AuthVariables {
+    user: User;
+    payload?: Record<string, unknown>;
+}
+
 export interface RequireAuthOptions {
     roles?: string[];
     /** Cookie name to check before the Authorization header. */
@@ -310,7 +292,7 @@ export interface RequireAuthOptions {
 /**
  * Middleware that requires a valid JWT Bearer token
  */
-export function requireAuth(auth: AuthService, options: RequireAuthOptions = {}): Middleware {
+export function requireAuth(auth: AuthService, options: RequireAuthOptions = {}): Middleware<Record<string, unknown>, Params, {}, AuthVariables> {
     return async (context: RequestContext): Promise<Response | void> => {
         const cookieValue = options.cookie ? getCookie(context.request.headers.get("Cookie"), options.cookie) : undefined;
         const credential = cookieValue ?? context.request.headers.get("Authorization");
@@ -335,12 +317,5 @@ export function requireAuth(auth: AuthService, options: RequireAuthOptions = {})
     };
 }
 
-function getCookie(header: string | null, name: string): string | undefined {
-    if (!header) return undefined;
-    const prefix = `${name}=`;
-    return header
-        .split(";")
-        .map((part) => part.trim())
-        .find((part) => part.startsWith(prefix))
-        ?.slice(prefix.length);
-}
+export { csrfProtection } from "./csrf";
+export type { CsrfOptions, CsrfCookieOptions, CsrfVariables } from "./csrf";
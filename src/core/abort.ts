@@ -0,0 +1,30 @@
+/**
+ * Cancellation helpers
+ *
+ * Bindings that cannot be cancelled (such as D1) still stop blocking the caller:
+ * raceSignal() rejects with the signal's reason as soon as it aborts.
+ */
+
+/**
+ * Settle with `promise`, or reject with `signal.reason` if the signal aborts first
+ */
+export function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) {
+        promise.catch(() => undefined);
+        return Promise.reject(signal.reason);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = (): void => reject(signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+}
+
+/**
+ * Whether an error is the rejection of an aborted operation (AbortError or TimeoutError)
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError");
+}
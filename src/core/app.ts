@@ -6,64 +6,153 @@
  * dynamic routing, path parameters, wildcards, and route grouping.
  */
 
-import type { Middleware, RequestContext, AppOptions, Handler } from "./types";
-import { handleError } from "../errors/index";
+import type { Middleware, RequestContext, AppOptions, Handler, Next, Params, RouteParams } from "./types";
+import { HttpError, PluginError, handleError, getProblem, problemResponse, withProblem } from "../errors/index";
+import { createLogger } from "../logging/index";
 import { PluginRegistry } from "../plugins/registry";
-import type { Plugin, PluginContext } from "../plugins/types";
+import type { Plugin, App as PluginApp } from "../plugins/types";
+import { createRouteTree, compileHostPattern } from "./route-tree";
+import type { RouteTree } from "./route-tree";
 
 /**
  * Extended request context with routing information
  */
-export interface RouterContext extends RequestContext {
-    params: Record<string, string>;
+export interface RouterContext<
+    Env extends Record<string, unknown> = Record<string, unknown>,
+    P extends Params = Params,
+    Services extends object = {},
+    Variables extends object = {},
+> extends RequestContext<Env, P, Services, Variables> {
+    params: P;
     query: Record<string, string | string[]>;
 }
 
+/**
+ * Middleware followed by the final handler of a route, typed by the params of its full path.
+ * Only the last function must return a Response; earlier ones may call `next()` or fall through.
+ * Route methods infer `Added` from route middleware that declares variables, so the
+ * final handler sees them in `ctx.get()`.
+ */
+type RouteHandlers<Env extends Record<string, unknown>, Path extends string, Services extends object, Variables extends object> = [
+    ...middleware: Array<Middleware<Env, RouteParams<Path>, Services, Variables>>,
+    handler: Handler<Env, RouteParams<Path>, Services, Variables>,
+];
+
 /**
  * Route definition
  */
 interface Route {
     method: string;
     path: string;
-    pattern: RegExp;
-    paramNames: string[];
     handler: Handler;
-    isWildcard: boolean;
     middleware: Middleware[];
 }
 
 /**
- * Router instance for route groups
+ * Anything with a Worker-style fetch handler can be mounted with app.route()
+ */
+export type MountableApp<Env extends Record<string, unknown> = Record<string, unknown>> = Pick<App<Env>, "fetch">;
+
+type Dispatch = (request: Request, env: Record<string, unknown>, executionContext: ExecutionContext, pathname: string) => Promise<Response>;
+
+/**
+ * Internal dispatchers of apps built by createApp(), so mounted apps can be
+ * served without rewriting the request URL.
  */
-export interface Router {
-    get(path: string, ...handlers: Array<Middleware | Handler>): this;
-    post(path: string, ...handlers: Array<Middleware | Handler>): this;
-    put(path: string, ...handlers: Array<Middleware | Handler>): this;
-    delete(path: string, ...handlers: Array<Middleware | Handler>): this;
-    patch(path: string, ...handlers: Array<Middleware | Handler>): this;
-    head(path: string, ...handlers: Array<Middleware | Handler>): this;
-    options(path: string, ...handlers: Array<Middleware | Handler>): this;
-    use(middleware: Middleware): this;
+const dispatchers = new WeakMap<object, Dispatch>();
+
+/**
+ * Router instance for route groups.
+ * `Prefix` is the group path and `Host` the host pattern (see App.host), so handler
+ * params include params from both. A host pattern has no "/", so `${Host}${Prefix}${Path}`
+ * parses as a first segment carrying the host params.
+ */
+export interface Router<
+    Env extends Record<string, unknown> = Record<string, unknown>,
+    Prefix extends string = "",
+    Host extends string = "",
+    Services extends object = {},
+    Variables extends object = {},
+> {
+    get<Path extends string, Added extends object = {}>(
+        path: Path,
+        ...handlers: RouteHandlers<Env, `${Host}${Prefix}${Path}`, Services, Variables & Added>
+    ): this;
+    post<Path extends string, Added extends object = {}>(
+        path: Path,
+        ...handlers: RouteHandlers<Env, `${Host}${Prefix}${Path}`, Services, Variables & Added>
+    ): this;
+    put<Path extends string, Added extends object = {}>(
+        path: Path,
+        ...handlers: RouteHandlers<Env, `${Host}${Prefix}${Path}`, Services, Variables & Added>
+    ): this;
+    delete<Path extends string, Added extends object = {}>(
+        path: Path,
+        ...handlers: RouteHandlers<Env, `${Host}${Prefix}${Path}`, Services, Variables & Added>
+    ): this;
+    patch<Path extends string, Added extends object = {}>(
+        path: Path,
+        ...handlers: RouteHandlers<Env, `${Host}${Prefix}${Path}`, Services, Variables & Added>
+    ): this;
+    head<Path extends string, Added extends object = {}>(
+        path: Path,
+        ...handlers: RouteHandlers<Env, `${Host}${Prefix}${Path}`, Services, Variables & Added>
+    ): this;
+    options<Path extends string, Added extends object = {}>(
+        path: Path,
+        ...handlers: RouteHandlers<Env, `${Host}${Prefix}${Path}`, Services, Variables & Added>
+    ): this;
+    use(middleware: Middleware<Env, RouteParams<`${Host}${Prefix}`>, Services, Variables>): this;
+    /** Nest a group; it inherits middleware registered on this router so far */
+    group<Sub extends string>(prefix: Sub, callback: (router: Router<Env, `${Prefix}${Sub}`, Host, Services, Variables>) => void): this;
+    /** Mount another app under this router's prefix */
+    route(prefix: string, app: MountableApp<Env>): this;
 }
 
 /**
  * Application instance
  */
-export interface App<Env extends Record<string, unknown> = Record<string, unknown>> {
-    use(middleware: Middleware<Env>): this;
-    get(path: string, ...handlers: Array<Middleware<Env> | Handler<Env>>): this;
-    post(path: string, ...handlers: Array<Middleware<Env> | Handler<Env>>): this;
-    put(path: string, ...handlers: Array<Middleware<Env> | Handler<Env>>): this;
-    delete(path: string, ...handlers: Array<Middleware<Env> | Handler<Env>>): this;
-    patch(path: string, ...handlers: Array<Middleware<Env> | Handler<Env>>): this;
-    head(path: string, ...handlers: Array<Middleware<Env> | Handler<Env>>): this;
-    options(path: string, ...handlers: Array<Middleware<Env> | Handler<Env>>): this;
-    group(prefix: string, callback: (router: Router) => void): this;
+export interface App<Env extends Record<string, unknown> = Record<string, unknown>, Services extends object = {}, Variables extends object = {}> {
+    /**
+     * Register global middleware. The returned app is typed with the variables the
+     * middleware declares, so chained registrations see them in `ctx.get()`.
+     */
+    use<Added extends object = {}>(middleware: Middleware<Env, Params, Services, Variables & Added>): App<Env, Services, Variables & Added>;
+    get<Path extends string, Added extends object = {}>(path: Path, ...handlers: RouteHandlers<Env, Path, Services, Variables & Added>): this;
+    post<Path extends string, Added extends object = {}>(path: Path, ...handlers: RouteHandlers<Env, Path, Services, Variables & Added>): this;
+    put<Path extends string, Added extends object = {}>(path: Path, ...handlers: RouteHandlers<Env, Path, Services, Variables & Added>): this;
+    delete<Path extends string, Added extends object = {}>(path: Path, ...handlers: RouteHandlers<Env, Path, Services, Variables & Added>): this;
+    patch<Path extends string, Added extends object = {}>(path: Path, ...handlers: RouteHandlers<Env, Path, Services, Variables & Added>): this;
+    head<Path extends string, Added extends object = {}>(path: Path, ...handlers: RouteHandlers<Env, Path, Services, Variables & Added>): this;
+    options<Path extends string, Added extends object = {}>(path: Path, ...handlers: RouteHandlers<Env, Path, Services, Variables & Added>): this;
+    group<Prefix extends string>(prefix: Prefix, callback: (router: Router<Env, Prefix, "", Services, Variables>) => void): this;
+    /**
+     * Register routes that only match requests for a host pattern such as
+     * `admin.example.com`, `:tenant.app.example.com` or `*.example.com`.
+     * Host params are merged into `params`; requests whose host has no matching
+     * route fall through to the routes registered without a host.
+     */
+    host<Host extends string>(host: Host, callback: (router: Router<Env, "", Host, Services, Variables>) => void): this;
+    /**
+     * Mount another app under a prefix. The mounted app sees the path with the
+     * prefix removed and keeps its own middleware, onError handler and plugins.
+     */
+    route(prefix: string, app: MountableApp<Env>): this;
     fetch(request: Request, env: Env, executionContext: ExecutionContext): Promise<Response>;
+    /**
+     * Emit `app:shutdown` so plugins can release resources. Workers have no shutdown
+     * signal, so this only runs when called; pass an ExecutionContext to run the cleanup
+     * via `waitUntil` after the response is sent. The next request initializes the app again.
+     * Per-request cleanup belongs in `app:flush`, which fetch() schedules automatically.
+     */
+    shutdown(executionContext?: ExecutionContext): Promise<void>;
 }
 
 /**
- * Convert a route path pattern to a RegExp and extract parameter names
+ * Convert a route path pattern to a RegExp and extract parameter names.
+ * createApp() matches through a compiled route tree; this remains for tooling
+ * that needs a standalone matcher for a single pattern and only understands
+ * `:name` params and a trailing `/*`.
  */
 export function parseRoutePattern(path: string): { pattern: RegExp; paramNames: string[]; isWildcard: boolean } {
     const paramNames: string[] = [];
@@ -107,12 +196,13 @@ export function parseQueryString(url: URL): Record<string, string | string[]> {
 }
 
 /**
- * Merge response headers from CORS / security middleware state
+ * Merge response headers from CORS / security / tracing middleware state
  */
 function applyResponseHeaders(response: Response, context: RequestContext): Response {
     const corsHeaders = context.state.corsHeaders as Record<string, string> | undefined;
     const securityHeaders = context.state.securityHeaders as Record<string, string> | undefined;
     const rateLimitHeaders = context.state.rateLimitHeaders as Record<string, string> | undefined;
+    const traceHeaders = context.state.traceHeaders as Record<string, string> | undefined;
 
     const logFn = context.state._logRequest as ((status: number) => void) | undefined;
     if (typeof logFn === "function") {
@@ -123,15 +213,16 @@ function applyResponseHeaders(response: Response, context: RequestContext): Resp
         }
     }
 
-    if (!corsHeaders && !securityHeaders && !rateLimitHeaders) {
+    if (!corsHeaders && !securityHeaders && !rateLimitHeaders && !traceHeaders) {
         return response;
     }
 
     const newHeaders = new Headers(response.headers);
-    for (const headers of [corsHeaders, securityHeaders, rateLimitHeaders]) {
+    for (const headers of [corsHeaders, securityHeaders, rateLimitHeaders, traceHeaders]) {
         if (!headers) continue;
         for (const [key, value] of Object.entries(headers)) {
-            newHeaders.set(key, value);
+            const vary = key.toLowerCase() === "vary" ? newHeaders.get("Vary") : null;
+            newHeaders.set(key, vary && !vary.toLowerCase().includes(value.toLowerCase()) ? `${vary}, ${value}` : value);
         }
     }
 
@@ -142,6 +233,46 @@ function applyResponseHeaders(response: Response, context: RequestContext): Resp
     });
 }
 
+/**
+ * Re-render an error response marked with withProblem() as application/problem+json
+ */
+function toProblemResponse(response: Response, instance: string, typeBase: string | undefined): Response {
+    const problem = getProblem(response);
+    if (!problem || response.headers.get("Content-Type")?.startsWith("application/problem+json")) {
+        return response;
+    }
+
+    const code = typeof problem.code === "string" ? problem.code : undefined;
+    // The body is replaced, so drop headers that described the old one (e.g. from compression or ETags)
+    const headers = new Headers(response.headers);
+    for (const name of ["Content-Type", "Content-Length", "Content-Encoding", "ETag"]) headers.delete(name);
+    void response.body?.cancel();
+
+    return problemResponse(
+        {
+            ...problem,
+            type: problem.type ?? (typeBase && code ? typeBase + code.toLowerCase().replace(/_/g, "-") : undefined),
+            instance: problem.instance ?? instance,
+        },
+        headers,
+    );
+}
+
+/**
+ * HEAD responses keep the status and headers of the GET response but never a body
+ */
+function stripHeadBody(method: string, response: Response): Response {
+    if (method !== "HEAD" || response.body === null) {
+        return response;
+    }
+    void response.body.cancel();
+    return new Response(null, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+    });
+}
+
 /**
  * Split route args into middleware + final handler
  */
@@ -154,15 +285,59 @@ function splitHandlers(handlers: Array<Middleware | Handler>): { middleware: Mid
     return { middleware, handler };
 }
 
+/**
+ * Run middleware as an onion. A middleware that calls next() receives the downstream
+ * Response and may return it or a replacement; one that returns without calling next()
+ * continues the chain, unless it returned a Response to short-circuit. `format` runs on
+ * each layer's Response, so problem+json is rendered before outer middleware rebuilds it.
+ */
+function runMiddlewareChain(
+    chain: Middleware[],
+    context: RouterContext,
+    terminal: () => Promise<Response>,
+    format: (response: Response) => Response,
+): Promise<Response> {
+    const step = async (index: number): Promise<Response> => {
+        const middleware = chain[index];
+        if (!middleware) {
+            return terminal();
+        }
+
+        let downstream: Promise<Response> | undefined;
+        const next: Next = () => {
+            if (downstream) {
+                return Promise.reject(new Error("next() called multiple times"));
+            }
+            downstream = run(index + 1);
+            return downstream;
+        };
+
+        const result = await middleware(context, next);
+        if (result instanceof Response) {
+            return result;
+        }
+        return downstream ?? next();
+    };
+    const run = (index: number): Promise<Response> => step(index).then(format);
+
+    return run(0);
+}
+
 /**
  * Create a new Cloudflare Worker application with dynamic routing
  */
-export function createApp<Env extends Record<string, unknown> = Record<string, unknown>>(options: AppOptions<Env> = {}): App<Env> {
+export function createApp<Env extends Record<string, unknown> = Record<string, unknown>, Services extends object = {}, Variables extends object = {}>(
+    options: AppOptions<Env, Services> = {},
+): App<Env, Services, Variables> {
     const middlewares: Middleware[] = [];
-    const routes: Route[] = [];
+    const routes = createRouteTree<Route>();
+    const hosts: Array<{ pattern: string; match: (hostname: string) => Record<string, string> | null; routes: RouteTree<Route> }> = [];
     const registry = new PluginRegistry();
     const providers = new Map<string, unknown>();
-    let pluginsInstalled = false;
+    const logger = options.logger ?? createLogger({ service: "cloudflare-kit" });
+    const config = options.config ?? {};
+    const problemTypeBase = typeof options.problemDetails === "object" ? options.problemDetails.typeBase : undefined;
+    let initialization: Promise<void> | null = null;
 
     // Register plugins from options
     if (options.plugins) {
@@ -171,150 +346,160 @@ export function createApp<Env extends Record<string, unknown> = Record<string, u
         }
     }
 
-    async function ensurePluginsInstalled(env: Record<string, unknown>): Promise<void> {
-        if (pluginsInstalled || registry.names.length === 0) {
-            pluginsInstalled = true;
-            return;
-        }
-
-        const noopLogger = {
-            debug: () => undefined,
-            info: () => undefined,
-            warn: () => undefined,
-            error: () => undefined,
-        };
-
-        const pluginApp = {
-            name: "cloudflare-kit",
-            version: "4.0.1",
-            config: {},
-            logger: noopLogger,
-            on: registry.on.bind(registry),
-            emit: registry.emit.bind(registry),
-            getProvider: <T>(name: string): T | undefined => providers.get(name) as T | undefined,
-            setProvider: <T>(name: string, provider: T): void => {
-                providers.set(name, provider);
-            },
-        };
-
-        const context: PluginContext = {
-            app: pluginApp,
-            config: {},
-            logger: noopLogger,
-            env,
-        };
+    const pluginApp: PluginApp = {
+        name: "cloudflare-kit",
+        version: "4.0.1",
+        config,
+        logger,
+        on: registry.on.bind(registry),
+        emit: registry.emit.bind(registry),
+        getProvider: <T>(name: string): T | undefined => providers.get(name) as T | undefined,
+        setProvider: <T>(name: string, provider: T): void => {
+            providers.set(name, provider);
+        },
+    };
 
-        await registry.installAll(context);
-        pluginsInstalled = true;
+    /**
+     * Install plugins and emit `app:init` once per isolate, before the first request.
+     * A failed attempt is retried by the next request.
+     */
+    function ensureInitialized(env: Record<string, unknown>): Promise<void> {
+        initialization ??= (async () => {
+            await registry.installAll({ app: pluginApp, config, logger, env });
+            try {
+                await registry.emitStrict("app:init", pluginApp);
+            } catch (error) {
+                throw new PluginError(`app:init hook failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        })().catch((error: unknown) => {
+            initialization = null;
+            throw error;
+        });
+        return initialization;
     }
 
-    function addRoute(method: string, path: string, handlers: Array<Middleware | Handler>, groupMiddleware: Middleware[] = []): void {
-        const { pattern, paramNames, isWildcard } = parseRoutePattern(path);
+    function addRoute(method: string, path: string, handlers: Array<Middleware | Handler>, groupMiddleware: Middleware[] = [], tree = routes): void {
         const { middleware: routeMiddleware, handler } = splitHandlers(handlers);
 
-        routes.push({
+        tree.insert(method, path, {
             method: method.toUpperCase(),
             path,
-            pattern,
-            paramNames,
             handler,
-            isWildcard,
             middleware: [...groupMiddleware, ...routeMiddleware],
         });
 
         void registry.emit("route:register", method.toUpperCase(), path);
     }
 
-    function findRoute(method: string, pathname: string): { route: Route; params: Record<string, string> } | null {
-        const upperMethod = method.toUpperCase();
-
-        for (const route of routes) {
-            if (route.method !== upperMethod) continue;
-
-            const match = pathname.match(route.pattern);
-            if (match) {
-                const params: Record<string, string> = {};
-                route.paramNames.forEach((name, index) => {
-                    params[name] = match[index + 1] || "";
-                });
-
-                if (route.isWildcard) {
-                    const splatIndex = route.paramNames.length + 1;
-                    const splat = match[splatIndex];
-                    if (splat !== undefined) {
-                        params["*"] = splat;
-                    } else {
-                        params["*"] = "";
-                    }
-                }
+    function getHostRoutes(pattern: string): RouteTree<Route> {
+        const key = pattern.toLowerCase();
+        let entry = hosts.find((h) => h.pattern === key);
+        if (!entry) {
+            entry = { pattern: key, match: compileHostPattern(key), routes: createRouteTree<Route>() };
+            hosts.push(entry);
+        }
+        return entry.routes;
+    }
 
-                return { route, params };
-            }
+    /**
+     * Route trees that apply to a hostname, host-specific ones first in registration order
+     */
+    function treesForHost(hostname: string): Array<{ routes: RouteTree<Route>; params: Record<string, string> }> {
+        const trees: Array<{ routes: RouteTree<Route>; params: Record<string, string> }> = [];
+        for (const entry of hosts) {
+            const params = entry.match(hostname);
+            if (params) trees.push({ routes: entry.routes, params });
         }
+        trees.push({ routes, params: {} });
+        return trees;
+    }
 
+    function findRoute(method: string, hostname: string, pathname: string): { route: Route; params: Record<string, string> } | null {
+        for (const tree of treesForHost(hostname)) {
+            const match = tree.routes.match(method, pathname);
+            if (match) return { route: match.value, params: { ...tree.params, ...match.params } };
+        }
         return null;
     }
 
-    function findPathWithoutMethod(pathname: string): string[] {
-        const methods: string[] = [];
-
-        for (const route of routes) {
-            const match = pathname.match(route.pattern);
-            if (match) {
-                methods.push(route.method);
-            }
+    /**
+     * Methods for the Allow header. HEAD is implied by GET and OPTIONS by any route.
+     */
+    function allowedMethods(hostname: string, pathname: string): string[] {
+        const methods = new Set(treesForHost(hostname).flatMap((tree) => tree.routes.allowedMethods(pathname)));
+        if (methods.size === 0) {
+            return [];
         }
+        if (methods.has("GET")) methods.add("HEAD");
+        methods.add("OPTIONS");
+        return [...methods];
+    }
 
-        return [...new Set(methods)];
+    function addMount(prefix: string, mounted: MountableApp<Env>, groupMiddleware: Middleware[] = [], tree = routes): void {
+        const basePath = prefix.endsWith("/") ? prefix.slice(0, -1) : prefix;
+        const dispatchMounted =
+            dispatchers.get(mounted) ??
+            ((request: Request, env: Record<string, unknown>, executionContext: ExecutionContext, pathname: string) => {
+                const url = new URL(request.url);
+                url.pathname = pathname;
+                return mounted.fetch(new Request(url.toString(), request), env as Env, executionContext);
+            });
+
+        tree.insert("*", `${basePath}/*`, {
+            method: "*",
+            path: `${basePath}/*`,
+            handler: (context) => dispatchMounted(context.request, context.env, context.executionContext, `/${context.params["*"] ?? ""}`),
+            middleware: groupMiddleware,
+        });
     }
 
-    function createRouter(groupPrefix: string, groupMiddleware: Middleware[]): Router {
+    function createRouter(groupPrefix: string, groupMiddleware: Middleware[], tree = routes): Router {
         const routerMiddleware: Middleware[] = [];
 
-        return {
+        const router = {
             use(middleware: Middleware) {
                 routerMiddleware.push(middleware);
                 return this;
             },
+            group(prefix: string, callback: (router: Router) => void) {
+                callback(createRouter(groupPrefix + prefix, [...groupMiddleware, ...routerMiddleware], tree));
+                return this;
+            },
+            route(prefix: string, mounted: MountableApp<Env>) {
+                addMount(groupPrefix + prefix, mounted, [...groupMiddleware, ...routerMiddleware], tree);
+                return this;
+            },
             get(path: string, ...handlers: Array<Middleware | Handler>) {
-                addRoute("GET", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware]);
+                addRoute("GET", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware], tree);
                 return this;
             },
             post(path: string, ...handlers: Array<Middleware | Handler>) {
-                addRoute("POST", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware]);
+                addRoute("POST", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware], tree);
                 return this;
             },
             put(path: string, ...handlers: Array<Middleware | Handler>) {
-                addRoute("PUT", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware]);
+                addRoute("PUT", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware], tree);
                 return this;
             },
             delete(path: string, ...handlers: Array<Middleware | Handler>) {
-                addRoute("DELETE", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware]);
+                addRoute("DELETE", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware], tree);
                 return this;
             },
             patch(path: string, ...handlers: Array<Middleware | Handler>) {
-                addRoute("PATCH", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware]);
+                addRoute("PATCH", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware], tree);
                 return this;
             },
             head(path: string, ...handlers: Array<Middleware | Handler>) {
-                addRoute("HEAD", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware]);
+                addRoute("HEAD", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware], tree);
                 return this;
             },
             options(path: string, ...handlers: Array<Middleware | Handler>) {
-                addRoute("OPTIONS", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware]);
+                addRoute("OPTIONS", groupPrefix + path, handlers, [...groupMiddleware, ...routerMiddleware], tree);
                 return this;
             },
         };
-    }
 
-    async function executeMiddlewares(middlewaresToRun: Middleware[], context: RouterContext): Promise<Response | null> {
-        for (const middleware of middlewaresToRun) {
-            const result = await middleware(context);
-            if (result instanceof Response) {
-                return result;
-            }
-        }
-        return null;
+        return router as Router;
     }
 
     const app = {
@@ -365,105 +550,145 @@ export function createApp<Env extends Record<string, unknown> = Record<string, u
             return this;
         },
 
-        async fetch(request: Request, env: Record<string, unknown>, executionContext: ExecutionContext): Promise<Response> {
-            await ensurePluginsInstalled(env);
-
-            const url = new URL(request.url);
-            const method = request.method;
-            let pathname = url.pathname;
-
-            if (options.trailingSlash === "ignore" && pathname.length > 1 && pathname.endsWith("/")) {
-                pathname = pathname.slice(0, -1);
-            } else if (options.trailingSlash === "redirect" && pathname.length > 1 && pathname.endsWith("/")) {
-                const redirectUrl = new URL(url);
-                redirectUrl.pathname = pathname.slice(0, -1);
-                return new Response(null, {
-                    status: 308,
-                    headers: { Location: redirectUrl.toString() },
-                });
-            }
+        host(pattern: string, callback: (router: Router) => void) {
+            callback(createRouter("", [], getHostRoutes(pattern)));
+            return this;
+        },
 
-            const match = findRoute(method, pathname);
-            const availableMethods = match ? [] : findPathWithoutMethod(pathname);
+        route(prefix: string, mounted: MountableApp<Env>) {
+            addMount(prefix, mounted);
+            return this;
+        },
 
-            const query = parseQueryString(url);
+        fetch(request: Request, env: Record<string, unknown>, executionContext: ExecutionContext): Promise<Response> {
+            const response = dispatch(request, env, executionContext, new URL(request.url).pathname);
+            // Per-request cleanup runs after the response is sent
+            executionContext.waitUntil(response.then(() => registry.emit("app:flush", pluginApp)).catch(() => undefined));
+            return response;
+        },
 
-            const context: RouterContext = {
-                request,
-                url,
-                env,
-                executionContext,
-                state: {},
-                params: match?.params || {},
-                query,
-                ...options,
-            };
+        shutdown(executionContext?: ExecutionContext): Promise<void> {
+            const pending = initialization;
+            initialization = null;
+            const done = pending
+                ? pending.then(
+                      () => registry.emit("app:shutdown", pluginApp),
+                      () => undefined,
+                  )
+                : Promise.resolve();
+            executionContext?.waitUntil(done);
+            return done;
+        },
+    };
 
-            try {
-                await registry.emit("request:start", context);
+    /**
+     * Run the request pipeline, matching `requestPath` (the pathname below any mount prefix)
+     */
+    async function dispatch(request: Request, env: Record<string, unknown>, executionContext: ExecutionContext, requestPath: string): Promise<Response> {
+        const url = new URL(request.url);
+        const formatError = (response: Response): Response => (options.problemDetails ? toProblemResponse(response, url.pathname, problemTypeBase) : response);
+
+        try {
+            await ensureInitialized(env);
+        } catch (error) {
+            logger.error("App initialization failed", { error: error instanceof Error ? error.message : String(error) });
+            return formatError(new HttpError("Service is starting up and failed to initialize", 503, "APP_INIT_FAILED").toResponse());
+        }
+
+        const method = request.method;
+        let pathname = requestPath;
+
+        if (options.trailingSlash === "ignore" && pathname.length > 1 && pathname.endsWith("/")) {
+            pathname = pathname.slice(0, -1);
+        } else if (options.trailingSlash === "redirect" && pathname.length > 1 && pathname.endsWith("/")) {
+            const redirectUrl = new URL(url);
+            redirectUrl.pathname = url.pathname.slice(0, -1);
+            return new Response(null, {
+                status: 308,
+                headers: { Location: redirectUrl.toString() },
+            });
+        }
+
+        const match = findRoute(method, url.hostname, pathname);
+        const availableMethods = match ? [] : allowedMethods(url.hostname, pathname);
 
-                const middlewareResult = await executeMiddlewares(middlewares, context);
-                if (middlewareResult) {
-                    const response = applyResponseHeaders(middlewareResult, context);
-                    await registry.emit("request:end", context, response);
-                    return response;
+        const query = parseQueryString(url);
+
+        const state: Record<string, unknown> = {};
+        const context: RouterContext = {
+            request,
+            url,
+            env,
+            executionContext,
+            state,
+            params: match?.params || {},
+            query,
+            signal: request.signal,
+            ...options,
+            services: options.services ? options.services.scope(env as Env, request) : {},
+            get: (key: string) => state[key],
+            set: (key: string, value: unknown) => {
+                state[key] = value;
+            },
+        } as RouterContext;
+
+        try {
+            await registry.emit("request:start", context);
+
+            const chain = match ? [...middlewares, ...match.route.middleware, match.route.handler] : middlewares;
+            const terminal = async (): Promise<Response> => {
+                if (match) {
+                    throw new Error(`Route handler for ${match.route.method} ${match.route.path} did not return a Response`);
                 }
 
-                if (!match) {
-                    if (availableMethods.length > 0) {
-                        const methodNotAllowed = new Response(
-                            JSON.stringify({
-                                error: "Method Not Allowed",
-                                allowed: availableMethods,
-                            }),
-                            {
-                                status: 405,
-                                headers: {
-                                    "Content-Type": "application/json",
-                                    Allow: availableMethods.join(", "),
-                                },
-                            },
-                        );
-                        const response = applyResponseHeaders(methodNotAllowed, context);
-                        await registry.emit("request:end", context, response);
-                        return response;
-                    }
-
-                    const notFound = new Response(JSON.stringify({ error: "Not Found", path: pathname, method }), {
-                        status: 404,
-                        headers: { "Content-Type": "application/json" },
-                    });
-                    const response = applyResponseHeaders(notFound, context);
-                    await registry.emit("request:end", context, response);
-                    return response;
+                if (method === "OPTIONS" && availableMethods.length > 0) {
+                    return new Response(null, { status: 204, headers: { Allow: availableMethods.join(", ") } });
                 }
 
-                const routeMiddlewareResult = await executeMiddlewares(match.route.middleware, context);
-                if (routeMiddlewareResult) {
-                    const response = applyResponseHeaders(routeMiddlewareResult, context);
-                    await registry.emit("request:end", context, response);
-                    return response;
+                if (availableMethods.length > 0) {
+                    const response = new Response(
+                        JSON.stringify({
+                            error: "Method Not Allowed",
+                            allowed: availableMethods,
+                        }),
+                        {
+                            status: 405,
+                            headers: {
+                                "Content-Type": "application/json",
+                                Allow: availableMethods.join(", "),
+                            },
+                        },
+                    );
+                    return withProblem(response, { status: 405, detail: `${method} is not allowed for ${pathname}`, allowed: availableMethods });
                 }
 
-                const response = applyResponseHeaders(await match.route.handler(context), context);
-                await registry.emit("request:end", context, response);
-                return response;
-            } catch (error) {
-                console.error("Handler error:", error);
-                await registry.emit("request:error", context, error instanceof Error ? error : new Error(String(error)));
+                const response = new Response(JSON.stringify({ error: "Not Found", path: pathname, method }), {
+                    status: 404,
+                    headers: { "Content-Type": "application/json" },
+                });
+                return withProblem(response, { status: 404, detail: `No route matches ${method} ${pathname}` });
+            };
 
-                if (options.onError) {
-                    const custom = await options.onError(error, context as RequestContext<Env>);
-                    return applyResponseHeaders(custom, context);
-                }
+            const response = applyResponseHeaders(stripHeadBody(method, await runMiddlewareChain(chain, context, terminal, formatError)), context);
+            await registry.emit("request:end", context, response);
+            return response;
+        } catch (error) {
+            console.error("Handler error:", error);
+            await registry.emit("request:error", context, error instanceof Error ? error : new Error(String(error)));
 
-                return applyResponseHeaders(handleError(error), context);
+            if (options.onError) {
+                const custom = await options.onError(error, context as unknown as RequestContext<Env, Params, Services>);
+                return applyResponseHeaders(formatError(custom), context);
             }
-        },
-    };
 
-    return app as App<Env>;
+            return applyResponseHeaders(formatError(handleError(error)), context);
+        }
+    }
+
+    dispatchers.set(app, dispatch);
+
+    return app as unknown as App<Env, Services, Variables>;
 }
 
-export type { Middleware, RequestContext, AppOptions, Handler } from "./types";
+export type { Middleware, RequestContext, AppOptions, Handler, Next, Params, RouteParams } from "./types";
 export type { Plugin };
@@ -0,0 +1,453 @@
+/**
+ * Body Parsing
+ *
+ * bodyParser() fills context.state.body for JSON, urlencoded forms, multipart
+ * forms and plain text. Multipart bodies are read as a stream: with a `storage`
+ * service each file part goes straight into uploadStream(), otherwise files are
+ * collected into File objects up to `maxFileSize`, and together with the text
+ * fields up to `maxSize`.
+ */
+
+import type { Middleware, Params, RequestContext } from "./types";
+import type { StorageService } from "../storage/types";
+import { errorResponse } from "./response";
+import { HttpError } from "../errors/index";
+
+export type BodyType = "json" | "form" | "multipart" | "text";
+
+/**
+ * A multipart file part uploaded to storage by bodyParser()
+ */
+export interface StoredFile {
+    field: string;
+    filename: string;
+    contentType: string;
+    key: string;
+    size: number;
+    etag: string;
+}
+
+export type FormValue = string | File | StoredFile;
+
+/**
+ * Storage operations bodyParser() needs; createStorage() satisfies it
+ */
+export type BodyStorage = Pick<StorageService, "uploadStream" | "delete">;
+
+/**
+ * Parsed form body; repeated fields become arrays
+ */
+export type FormBody = Record<string, FormValue | FormValue[]>;
+
+export interface BodyParserOptions {
+    /** Max size in bytes of JSON, text and urlencoded bodies, and of all multipart parts held in memory together: text fields, plus files unless streamed to `storage` (default: 1MB) */
+    maxSize?: number;
+    /** Max size in bytes of each multipart file (default: maxSize when buffered, unlimited when streamed to storage) */
+    maxFileSize?: number;
+    /** Body types to parse; other content types pass through untouched (default: all) */
+    types?: BodyType[];
+    /** Stream multipart files into this storage service (or one resolved per request from env) instead of buffering them */
+    storage?: BodyStorage | ((context: RequestContext) => BodyStorage);
+    /** Storage key for an uploaded file (default: `uploads/<uuid>/<filename>`) */
+    fileKey?: (file: { field: string; filename: string; contentType: string }, context: RequestContext) => string;
+}
+
+/**
+ * Variables bodyParser() stores for downstream handlers (`ctx.get("body")`)
+ */
+export interface BodyVariables {
+    body: unknown;
+}
+
+interface MultipartPart {
+    name: string;
+    filename?: string;
+    contentType: string;
+    body: ReadableStream<Uint8Array>;
+}
+
+const encoder = new TextEncoder();
+const CRLF = encoder.encode("\r\n");
+const HEADER_END = encoder.encode("\r\n\r\n");
+const MAX_PART_HEADER_BYTES = 16 * 1024;
+
+function malformed(message = "Malformed multipart body"): HttpError {
+    return new HttpError(message, 400, "MALFORMED_BODY");
+}
+
+function tooLarge(subject: string, maxBytes: number): HttpError {
+    return new HttpError(`${subject} exceeds max size of ${maxBytes} bytes`, 413, "PAYLOAD_TOO_LARGE");
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const out = new Uint8Array(a.length + b.length);
+    out.set(a, 0);
+    out.set(b, a.length);
+    return out;
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array): number {
+    outer: for (let i = 0; i <= haystack.length - needle.length; i++) {
+        for (let j = 0; j < needle.length; j++) {
+            if (haystack[i + j] !== needle[j]) continue outer;
+        }
+        return i;
+    }
+    return -1;
+}
+
+async function readLimited(stream: ReadableStream<Uint8Array>, maxBytes: number, subject: string): Promise<Uint8Array> {
+    const reader = stream.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > maxBytes) {
+            // Not awaited: cancelling one branch of a cloned body settles only once both are cancelled
+            void reader.cancel().catch(() => undefined);
+            throw tooLarge(subject, maxBytes);
+        }
+        chunks.push(value);
+    }
+
+    const out = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        out.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return out;
+}
+
+function appendValue<T>(target: Record<string, T | T[]>, name: string, value: T): void {
+    const existing = target[name];
+    if (existing === undefined) {
+        target[name] = value;
+    } else if (Array.isArray(existing)) {
+        existing.push(value);
+    } else {
+        target[name] = [existing, value];
+    }
+}
+
+function parseDisposition(header: string): Record<string, string> {
+    const params: Record<string, string> = {};
+    for (const match of header.matchAll(/;\s*([\w*-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g)) {
+        const key = match[1]!.toLowerCase();
+        const value = match[2] !== undefined ? match[2].replace(/\\(.)/g, "$1") : match[3]!.trim();
+        if (key === "filename*") {
+            const encoded = /^[\w-]+'[^']*'(.*)$/.exec(value);
+            try {
+                params.filename = decodeURIComponent(encoded ? encoded[1]! : value);
+            } catch {
+                // keep the plain filename parameter
+            }
+        } else if (!(key === "filename" && params.filename !== undefined)) {
+            params[key] = value;
+        }
+    }
+    return params;
+}
+
+/**
+ * Yield multipart parts one at a time; each part body must be consumed before the next is read
+ */
+async function* readMultipart(body: ReadableStream<Uint8Array>, boundary: string): AsyncGenerator<MultipartPart> {
+    const reader = body.getReader();
+    const delimiter = encoder.encode(`\r\n--${boundary}`);
+    // The first boundary has no leading CRLF; prepend one so every delimiter looks alike
+    let buffer: Uint8Array = CRLF;
+    let ended = false;
+
+    const fill = async (): Promise<boolean> => {
+        if (ended) return false;
+        const { done, value } = await reader.read();
+        if (done) {
+            ended = true;
+            return false;
+        }
+        buffer = concatBytes(buffer, value);
+        return true;
+    };
+
+    const skipPast = async (needle: Uint8Array, maxBytes = Infinity): Promise<Uint8Array> => {
+        for (;;) {
+            const index = indexOfBytes(buffer, needle);
+            if (index >= 0) {
+                const skipped = buffer.subarray(0, index);
+                buffer = buffer.subarray(index + needle.length);
+                return skipped;
+            }
+            if (buffer.length > maxBytes || !(await fill())) throw malformed();
+        }
+    };
+
+    try {
+        await skipPast(delimiter);
+
+        for (;;) {
+            while (buffer.length < 2) {
+                if (!(await fill())) throw malformed();
+            }
+            if (buffer[0] === 0x2d && buffer[1] === 0x2d) return; // "--" closes the body
+
+            await skipPast(CRLF, 1024); // transport padding after the boundary
+            let rawHeaders = "";
+            while (buffer.length < 2 && (await fill()));
+            if (buffer[0] === CRLF[0] && buffer[1] === CRLF[1]) {
+                buffer = buffer.subarray(2);
+            } else {
+                rawHeaders = new TextDecoder().decode(await skipPast(HEADER_END, MAX_PART_HEADER_BYTES));
+            }
+
+            const headers = new Map<string, string>();
+            for (const line of rawHeaders.split("\r\n")) {
+                const colon = line.indexOf(":");
+                if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+            }
+            const disposition = parseDisposition(headers.get("content-disposition") ?? "");
+
+            let finished = false;
+            const partBody = new ReadableStream<Uint8Array>({
+                async pull(controller) {
+                    for (;;) {
+                        const index = indexOfBytes(buffer, delimiter);
+                        if (index >= 0) {
+                            if (index > 0) controller.enqueue(buffer.slice(0, index));
+                            buffer = buffer.subarray(index + delimiter.length);
+                            finished = true;
+                            controller.close();
+                            return;
+                        }
+                        // Keep a tail that could be the start of a delimiter split across chunks
+                        const safe = buffer.length - (delimiter.length - 1);
+                        if (safe > 0) {
+                            controller.enqueue(buffer.slice(0, safe));
+                            buffer = buffer.subarray(safe);
+                            return;
+                        }
+                        if (!(await fill())) throw malformed("Unexpected end of multipart body");
+                    }
+                },
+            });
+
+            yield {
+                name: disposition.name ?? "",
+                filename: disposition.filename,
+                contentType: headers.get("content-type") ?? (disposition.filename !== undefined ? "application/octet-stream" : "text/plain"),
+                body: partBody,
+            };
+
+            if (!finished) {
+                if (partBody.locked) throw new Error("Multipart part body was not fully consumed");
+                await partBody.pipeTo(new WritableStream());
+            }
+        }
+    } finally {
+        void reader.cancel().catch(() => undefined);
+    }
+}
+
+function multipartBoundary(contentType: string): string {
+    const boundaryMatch = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+    const boundary = boundaryMatch?.[1] ?? boundaryMatch?.[2];
+    if (!boundary) throw malformed("Missing multipart boundary");
+    return boundary;
+}
+
+/**
+ * Read one text field of a urlencoded or multipart body from a clone, without buffering more
+ * than `maxBytes`. Multipart scanning stops at the first file part, so the field must precede
+ * any file input. Returns undefined when the field is missing, too far in or the body is not a form.
+ */
+export async function peekFormField(request: Request, field: string, maxBytes: number): Promise<string | undefined> {
+    const contentType = request.headers.get("Content-Type") ?? "";
+    const isForm = contentType.includes("application/x-www-form-urlencoded");
+    if (!request.body || request.bodyUsed || (!isForm && !contentType.includes("multipart/form-data"))) return undefined;
+    if (isForm && Number(request.headers.get("Content-Length") ?? 0) > maxBytes) return undefined;
+
+    const body = request.clone().body!;
+    try {
+        if (isForm) {
+            return new URLSearchParams(new TextDecoder().decode(await readLimited(body, maxBytes, "Form"))).get(field) ?? undefined;
+        }
+        // End the stream at the budget; a field cut short there reads as malformed
+        let remaining = maxBytes;
+        const budget = new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                controller.enqueue(chunk.subarray(0, remaining));
+                remaining -= Math.min(remaining, chunk.byteLength);
+                if (remaining === 0) controller.terminate();
+            },
+        });
+        for await (const part of readMultipart(body.pipeThrough(budget), multipartBoundary(contentType))) {
+            if (part.filename !== undefined) return undefined;
+            if (part.name === field) return new TextDecoder().decode(await readLimited(part.body, maxBytes, "Form"));
+        }
+        return undefined;
+    } catch {
+        return undefined;
+    } finally {
+        void body.cancel().catch(() => undefined);
+    }
+}
+
+async function parseMultipart(context: RequestContext, contentType: string, options: BodyParserOptions, maxSize: number): Promise<FormBody> {
+    const boundary = multipartBoundary(contentType);
+
+    const storage = typeof options.storage === "function" ? options.storage(context) : options.storage;
+    const maxFileSize = options.maxFileSize ?? (storage ? Infinity : maxSize);
+    const form: FormBody = {};
+    const uploadedKeys: string[] = [];
+    let buffered = 0;
+
+    /** Read a part into memory against the maxSize budget shared by every buffered part */
+    const bufferPart = async (body: ReadableStream<Uint8Array>, limit: number, subject: string): Promise<Uint8Array> => {
+        const budget = maxSize - buffered;
+        try {
+            const bytes = await readLimited(body, Math.min(limit, budget), subject);
+            buffered += bytes.byteLength;
+            return bytes;
+        } catch (error) {
+            throw budget < limit && error instanceof HttpError && error.code === "PAYLOAD_TOO_LARGE" ? tooLarge("Multipart body", maxSize) : error;
+        }
+    };
+
+    try {
+        for await (const part of readMultipart(context.request.body!, boundary)) {
+            if (part.filename === undefined) {
+                const bytes = await bufferPart(part.body, Infinity, "Form fields");
+                appendValue<FormValue>(form, part.name, new TextDecoder().decode(bytes));
+                continue;
+            }
+            if (part.filename === "") continue; // file input left empty
+
+            if (!storage) {
+                const bytes = await bufferPart(part.body, maxFileSize, `File "${part.filename}"`);
+                appendValue<FormValue>(form, part.name, new File([bytes], part.filename, { type: part.contentType }));
+                continue;
+            }
+
+            let size = 0;
+            let exceeded = false;
+            let consumed = false;
+            const limited = part.body.pipeThrough(
+                new TransformStream<Uint8Array, Uint8Array>({
+                    transform(chunk, controller) {
+                        size += chunk.byteLength;
+                        if (size > maxFileSize) {
+                            exceeded = true;
+                            controller.error(tooLarge(`File "${part.filename}"`, maxFileSize));
+                            return;
+                        }
+                        controller.enqueue(chunk);
+                    },
+                    flush() {
+                        consumed = true;
+                    },
+                }),
+            );
+
+            const file = { field: part.name, filename: part.filename, contentType: part.contentType };
+            const key = options.fileKey ? options.fileKey(file, context) : `uploads/${crypto.randomUUID()}/${part.filename}`;
+            try {
+                const result = await storage.uploadStream(key, limited, { contentType: part.contentType });
+                uploadedKeys.push(result.key);
+                if (!consumed) {
+                    // The rest of the body sits behind this part, so the request cannot be read further
+                    void limited.cancel().catch(() => undefined);
+                    throw new HttpError(`File "${part.filename}" was not fully stored`, 422, "INCOMPLETE_UPLOAD");
+                }
+                appendValue<FormValue>(form, part.name, { ...file, key: result.key, size: result.size, etag: result.etag });
+            } catch (error) {
+                throw exceeded ? tooLarge(`File "${part.filename}"`, maxFileSize) : error;
+            }
+        }
+    } catch (error) {
+        // Don't leave orphaned uploads behind when the request is rejected
+        await Promise.allSettled(uploadedKeys.map((key) => storage!.delete(key)));
+        throw error;
+    }
+
+    return form;
+}
+
+function bodyTypeOf(mediaType: string): BodyType | undefined {
+    if (mediaType === "application/json" || mediaType.endsWith("+json")) return "json";
+    if (mediaType === "application/x-www-form-urlencoded") return "form";
+    if (mediaType === "multipart/form-data") return "multipart";
+    if (mediaType.startsWith("text/")) return "text";
+    return undefined;
+}
+
+/**
+ * Parse JSON, form, multipart and text request bodies into context.state.body
+ *
+ * - JSON: the parsed value
+ * - application/x-www-form-urlencoded: a FormBody of strings
+ * - multipart/form-data: a FormBody of strings plus File objects, or StoredFile records with `storage`
+ * - text/*: the decoded string
+ *
+ * @example
+ * ```typescript
+ * const storage = createStorage({ binding: env.UPLOADS });
+ * app.post('/avatars', bodyParser({ storage, maxFileSize: 5 * 1024 * 1024 }), (ctx) => {
+ *   const { avatar } = ctx.get('body') as FormBody;
+ *   return jsonResponse({ key: (avatar as StoredFile).key });
+ * });
+ * ```
+ */
+export function bodyParser(options: BodyParserOptions = {}): Middleware<Record<string, unknown>, Params, {}, BodyVariables> {
+    const maxSize = options.maxSize ?? 1024 * 1024;
+    const types = new Set<BodyType>(options.types ?? ["json", "form", "multipart", "text"]);
+
+    return async (context: RequestContext): Promise<Response | void> => {
+        const { request } = context;
+        if (context.state.body !== undefined || !request.body) {
+            return undefined;
+        }
+
+        const contentType = request.headers.get("content-type") ?? "";
+        const type = bodyTypeOf(contentType.split(";")[0]!.trim().toLowerCase());
+        if (!type || !types.has(type)) {
+            return undefined;
+        }
+
+        const contentLength = request.headers.get("content-length");
+        if (type !== "multipart" && contentLength && Number(contentLength) > maxSize) {
+            return errorResponse(`Request body exceeds max size of ${maxSize} bytes`, 413);
+        }
+
+        try {
+            if (type === "multipart") {
+                context.state.body = await parseMultipart(context, contentType, options, maxSize);
+                return undefined;
+            }
+
+            const text = new TextDecoder().decode(await readLimited(request.body, maxSize, "Request body"));
+            if (type === "json") {
+                context.state.body = text ? JSON.parse(text) : undefined;
+            } else if (type === "form") {
+                const form: FormBody = {};
+                for (const [name, value] of new URLSearchParams(text)) {
+                    appendValue<FormValue>(form, name, value);
+                }
+                context.state.body = form;
+            } else {
+                context.state.body = text;
+            }
+        } catch (error) {
+            if (error instanceof HttpError) {
+                return errorResponse(error.message, error.statusCode);
+            }
+            if (error instanceof SyntaxError && type === "json") {
+                return errorResponse("Invalid JSON", 400);
+            }
+            throw error;
+        }
+        return undefined;
+    };
+}
@@ -3,11 +3,15 @@
  *
  * Pre-built middleware for common tasks.
  * Middleware returns a Response to short-circuit, or void/undefined to continue.
- * There is no Express-style next() callback.
+ * Middleware that needs the downstream Response can await the `next()` argument
+ * and return it (or a rewritten copy).
  */
 
-import type { Middleware, RequestContext } from "./types";
-import { errorResponse } from "./response";
+import type { Middleware, Params, RequestContext } from "./types";
+import { errorResponse, formatETag, notModified } from "./response";
+import { isAbortError } from "./abort";
+import { createTraceContext, type TraceContext } from "./trace";
+import { HttpError } from "../errors/index";
 
 export type CorsOrigin = string | string[] | ((origin: string | null, request: Request) => string | null | undefined);
 
@@ -107,10 +111,17 @@ export interface JsonMiddlewareOptions {
     maxSize?: number;
 }
 
+/**
+ * Variables jsonMiddleware() stores for downstream handlers (`ctx.get("body")`)
+ */
+export interface JsonBodyVariables {
+    body: unknown;
+}
+
 /**
  * Parse JSON request body into context.state.body
  */
-export function jsonMiddleware(options: JsonMiddlewareOptions = {}): Middleware {
+export function jsonMiddleware(options: JsonMiddlewareOptions = {}): Middleware<Record<string, unknown>, Params, {}, JsonBodyVariables> {
     const maxSize = options.maxSize ?? 1024 * 1024;
 
     return async (context: RequestContext): Promise<Response | void> => {
@@ -181,3 +192,382 @@ export function securityHeadersMiddleware(options: SecurityHeadersOptions = {}):
         return undefined;
     };
 }
+
+export type CompressionEncoding = "gzip" | "deflate";
+
+export interface CompressionOptions {
+    /** Minimum body size in bytes worth compressing (default: 1024) */
+    threshold?: number;
+    /**
+     * Compressible media types; entries ending in "/" match a whole family
+     * (default: text/, JSON, XML, JavaScript and SVG types)
+     */
+    contentTypes?: string[];
+    /** Supported encodings in server preference order (default: ["gzip", "deflate"]) */
+    encodings?: CompressionEncoding[];
+}
+
+const DEFAULT_COMPRESSIBLE_TYPES = [
+    "text/",
+    "application/json",
+    "application/problem+json",
+    "application/ld+json",
+    "application/xml",
+    "application/javascript",
+    "application/wasm",
+    "image/svg+xml",
+];
+
+/**
+ * Pick the supported encoding the client accepts with the highest q-value
+ */
+function selectEncoding(acceptEncoding: string | null, encodings: CompressionEncoding[]): CompressionEncoding | null {
+    if (!acceptEncoding) return null;
+
+    const accepted = new Map<string, number>();
+    for (const part of acceptEncoding.split(",")) {
+        const [name, ...params] = part.trim().toLowerCase().split(";");
+        if (!name) continue;
+        const q = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+        accepted.set(name, q ? Number(q.slice(2)) || 0 : 1);
+    }
+
+    let best: CompressionEncoding | null = null;
+    let bestQ = 0;
+    for (const encoding of encodings) {
+        const q = accepted.get(encoding) ?? accepted.get("*") ?? 0;
+        if (q > bestQ) {
+            best = encoding;
+            bestQ = q;
+        }
+    }
+    return best;
+}
+
+function appendVary(headers: Headers, value: string): void {
+    const existing = headers.get("Vary");
+    if (!existing) {
+        headers.set("Vary", value);
+    } else if (!existing.split(",").some((entry) => ["*", value.toLowerCase()].includes(entry.trim().toLowerCase()))) {
+        headers.set("Vary", `${existing}, ${value}`);
+    }
+}
+
+/**
+ * Read up to `threshold` bytes and report whether the body ended before reaching it,
+ * returning a stream that replays what was read followed by the rest of the body
+ */
+async function peekBody(body: ReadableStream<Uint8Array>, threshold: number): Promise<{ stream: ReadableStream<Uint8Array>; small: boolean }> {
+    const reader = body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    let done = false;
+
+    while (size < threshold) {
+        const result = await reader.read();
+        if (result.done) {
+            done = true;
+            break;
+        }
+        chunks.push(result.value);
+        size += result.value.byteLength;
+    }
+
+    const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            const chunk = chunks.shift();
+            if (chunk) {
+                controller.enqueue(chunk);
+                return;
+            }
+            const result = done ? { done: true as const, value: undefined } : await reader.read();
+            if (result.done) {
+                controller.close();
+            } else {
+                controller.enqueue(result.value);
+            }
+        },
+        cancel(reason) {
+            return reader.cancel(reason);
+        },
+    });
+
+    return { stream, small: done && size < threshold };
+}
+
+/**
+ * Compress responses with gzip or deflate based on Accept-Encoding
+ *
+ * Skips bodies below the size threshold, media types outside the allowlist,
+ * responses that already carry a Content-Encoding or `Cache-Control: no-transform`,
+ * and streaming responses (SSE and the `src/streaming` helpers, including
+ * pipeStream(), which send `X-Accel-Buffering: no`) so events are never held
+ * back by the compressor. `Vary: Accept-Encoding` is added only to responses
+ * that are actually encoded; all others pass through untouched.
+ */
+export function compressionMiddleware(options: CompressionOptions = {}): Middleware {
+    const threshold = options.threshold ?? 1024;
+    const contentTypes = (options.contentTypes ?? DEFAULT_COMPRESSIBLE_TYPES).map((type) => type.toLowerCase());
+    const encodings = options.encodings ?? ["gzip", "deflate"];
+
+    const isCompressible = (contentType: string | null): boolean => {
+        const mediaType = contentType?.split(";")[0]?.trim().toLowerCase();
+        if (!mediaType || mediaType === "text/event-stream") return false;
+        return contentTypes.some((type) => (type.endsWith("/") ? mediaType.startsWith(type) : mediaType === type));
+    };
+
+    return async (context: RequestContext, next): Promise<Response> => {
+        const response = await next();
+
+        if (
+            !response.body ||
+            response.status < 200 ||
+            response.status === 204 ||
+            response.status === 206 ||
+            response.status === 304 ||
+            response.headers.has("Content-Encoding") ||
+            response.headers.get("X-Accel-Buffering") === "no" ||
+            /(^|,)\s*no-transform\s*(,|$)/i.test(response.headers.get("Cache-Control") ?? "") ||
+            !isCompressible(response.headers.get("Content-Type"))
+        ) {
+            return response;
+        }
+
+        const encoding = selectEncoding(context.request.headers.get("Accept-Encoding"), encodings);
+        const contentLength = response.headers.get("Content-Length");
+        if (!encoding || (contentLength !== null && Number(contentLength) < threshold)) {
+            return response;
+        }
+
+        let body: ReadableStream<Uint8Array> = response.body;
+        if (contentLength === null) {
+            const peeked = await peekBody(response.body, threshold);
+            body = peeked.stream;
+            if (peeked.small) {
+                // The peek consumed the original stream, so hand back the buffered one unchanged
+                return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+            }
+        }
+
+        // Only an encoded body varies by Accept-Encoding; untouched responses keep their headers
+        const headers = new Headers(response.headers);
+        appendVary(headers, "Accept-Encoding");
+        headers.set("Content-Encoding", encoding);
+        headers.delete("Content-Length");
+        const etag = headers.get("ETag");
+        if (etag && !etag.startsWith("W/")) {
+            // The compressed bytes differ, so a strong validator no longer applies
+            headers.set("ETag", `W/${etag}`);
+        }
+
+        return new Response(body.pipeThrough(new CompressionStream(encoding)), { status: response.status, statusText: response.statusText, headers });
+    };
+}
+
+export interface ETagOptions {
+    /** Emit weak validators (W/"...") for computed ETags (default: false) */
+    weak?: boolean;
+    /**
+     * Resolve the current ETag of the resource a PUT/PATCH/DELETE targets, or null when it
+     * does not exist. If-Match is only enforced when this is provided.
+     */
+    currentETag?: (context: RequestContext) => string | null | undefined | Promise<string | null | undefined>;
+}
+
+const NOT_MODIFIED_HEADERS = ["Cache-Control", "Content-Location", "Date", "ETag", "Expires", "Last-Modified", "Vary"];
+
+function isJsonType(contentType: string | null): boolean {
+    const mediaType = contentType?.split(";")[0]?.trim().toLowerCase() ?? "";
+    return mediaType === "application/json" || mediaType.endsWith("+json");
+}
+
+function parseETagList(header: string): string[] {
+    return header
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+}
+
+function opaqueTag(etag: string): string {
+    return etag.startsWith("W/") ? etag.slice(2) : etag;
+}
+
+async function computeETag(body: ArrayBuffer, weak: boolean): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-1", body);
+    const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+    return `${weak ? "W/" : ""}"${hex}"`;
+}
+
+/**
+ * ETags and conditional requests
+ *
+ * GET/HEAD: computes an ETag for JSON responses that lack one (responses that already
+ * carry an ETag, such as fileResponse() over StorageService.download(), keep theirs) and
+ * answers 304 when If-None-Match or If-Modified-Since matches.
+ * PUT/PATCH/DELETE: rejects requests whose If-Match does not match `currentETag` with 412.
+ */
+export function etagMiddleware(options: ETagOptions = {}): Middleware {
+    const weak = options.weak ?? false;
+
+    return async (context: RequestContext, next): Promise<Response> => {
+        const method = context.request.method;
+
+        if (method === "PUT" || method === "PATCH" || method === "DELETE") {
+            const ifMatch = context.request.headers.get("If-Match");
+            if (ifMatch && options.currentETag) {
+                const current = await options.currentETag(context);
+                const tags = parseETagList(ifMatch);
+                const matches = current
+                    ? tags.includes("*") || (!current.startsWith("W/") && tags.some((tag) => !tag.startsWith("W/") && tag === formatETag(current)))
+                    : false;
+                if (!matches) {
+                    return errorResponse("Precondition Failed: the resource has changed", 412, current ? { etag: formatETag(current) } : undefined);
+                }
+            }
+            return next();
+        }
+
+        const response = await next();
+        if ((method !== "GET" && method !== "HEAD") || response.status !== 200) {
+            return response;
+        }
+
+        let result = response;
+        let etag = response.headers.get("ETag");
+        if (!etag && response.body && isJsonType(response.headers.get("Content-Type"))) {
+            const body = await response.arrayBuffer();
+            etag = await computeETag(body, weak);
+            const headers = new Headers(response.headers);
+            headers.set("ETag", etag);
+            result = new Response(body, { status: response.status, statusText: response.statusText, headers });
+        }
+
+        const ifNoneMatch = context.request.headers.get("If-None-Match");
+        const ifModifiedSince = context.request.headers.get("If-Modified-Since");
+        const lastModified = result.headers.get("Last-Modified");
+
+        let unchanged = false;
+        if (ifNoneMatch) {
+            const tags = parseETagList(ifNoneMatch);
+            unchanged = etag !== null && (tags.includes("*") || tags.some((tag) => opaqueTag(tag) === opaqueTag(etag!)));
+        } else if (ifModifiedSince && lastModified) {
+            const since = Date.parse(ifModifiedSince);
+            unchanged = !Number.isNaN(since) && Date.parse(lastModified) <= since;
+        }
+
+        if (!unchanged) {
+            return result;
+        }
+
+        void result.body?.cancel();
+        const headers: Record<string, string> = {};
+        for (const name of NOT_MODIFIED_HEADERS) {
+            const value = result.headers.get(name);
+            if (value !== null) headers[name] = value;
+        }
+        return notModified(headers);
+    };
+}
+
+export interface TimeoutMiddlewareOptions {
+    /** Deadline for the rest of the chain in milliseconds */
+    ms: number;
+    /** Status returned when the deadline passes (default: 504) */
+    status?: 503 | 504;
+    /** Error message (default: "Request timed out after <ms>ms") */
+    message?: string;
+}
+
+/**
+ * Enforce a deadline on downstream middleware and handlers
+ *
+ * Replaces `ctx.signal` with one that also aborts at the deadline, so D1, AI and fetch
+ * calls given that signal are cancelled too. When the deadline passes the client gets a
+ * 504 (or 503) `REQUEST_TIMEOUT` error, even if the handler ignores the signal.
+ *
+ * @example
+ * ```typescript
+ * app.use(timeoutMiddleware({ ms: 10_000 }));
+ * app.get('/report', async (ctx) => {
+ *   const db = createDatabase({ binding: ctx.env.DB, signal: ctx.signal });
+ *   return jsonResponse(await db.query('SELECT * FROM orders'));
+ * });
+ * ```
+ */
+export function timeoutMiddleware(options: TimeoutMiddlewareOptions): Middleware {
+    const status = options.status ?? 504;
+    const message = options.message ?? `Request timed out after ${options.ms}ms`;
+
+    return async (context: RequestContext, next): Promise<Response> => {
+        const controller = new AbortController();
+        context.signal = AbortSignal.any([context.signal ?? context.request.signal, controller.signal]);
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const deadline = new Promise<"timeout">((resolve) => {
+            timer = setTimeout(() => {
+                controller.abort(new DOMException(message, "TimeoutError"));
+                resolve("timeout");
+            }, options.ms);
+        });
+        const timedOut = (): Response => new HttpError(message, status, "REQUEST_TIMEOUT").toResponse();
+
+        const downstream = next();
+        try {
+            const result = await Promise.race([downstream, deadline]);
+            if (result === "timeout") {
+                downstream.catch(() => undefined);
+                return timedOut();
+            }
+            return result;
+        } catch (error) {
+            if (controller.signal.aborted && isAbortError(error)) {
+                return timedOut();
+            }
+            throw error;
+        } finally {
+            if (timer !== undefined) clearTimeout(timer);
+        }
+    };
+}
+
+export interface TracingOptions {
+    /** Header carrying the request ID, read from requests and echoed on responses (default: "X-Request-Id") */
+    requestIdHeader?: string;
+    /** Continue incoming `traceparent` and request IDs; disable when clients are untrusted (default: true) */
+    trustIncoming?: boolean;
+}
+
+/**
+ * Variables tracingMiddleware() stores for downstream handlers (`ctx.get("trace")`)
+ */
+export interface TracingVariables {
+    trace: TraceContext;
+    requestId: string;
+}
+
+/**
+ * W3C trace context and request ID propagation
+ *
+ * Continues the caller's `traceparent` (or starts a trace) with a new span, reuses or
+ * creates the request ID and echoes it on every response. Register it before
+ * `requestLogger()` so the logger and its children carry `requestId`, `traceId` and
+ * `spanId`; pass `ctx.get("trace")` to createOAuth, createMailer and createAI (or use
+ * `traceHeaders()`) to propagate the trace to outbound calls.
+ *
+ * @example
+ * ```typescript
+ * const app = createApp().use(tracingMiddleware()).use(logger.requestLogger());
+ * app.get('/login', (ctx) => createOAuth({ ...oauthConfig, trace: ctx.get('trace') }).getAuthUrl());
+ * ```
+ */
+export function tracingMiddleware(options: TracingOptions = {}): Middleware<Record<string, unknown>, Params, {}, TracingVariables> {
+    const requestIdHeader = options.requestIdHeader ?? "X-Request-Id";
+    const trustIncoming = options.trustIncoming ?? true;
+
+    return async (context: RequestContext): Promise<void> => {
+        const trace = createTraceContext(trustIncoming ? context.request : undefined, requestIdHeader);
+        context.state.trace = trace;
+        context.state.requestId = trace.requestId;
+        context.state.traceHeaders = { [requestIdHeader]: trace.requestId };
+    };
+}
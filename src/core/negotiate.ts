@@ -0,0 +1,351 @@
+/**
+ * Content Negotiation
+ *
+ * negotiate() picks a serializer from the request's Accept header and renders
+ * data as JSON, NDJSON, CSV, XML, MessagePack or HTML. Serializers live in a
+ * registry so teams can add or replace formats.
+ */
+
+import { errorResponse } from "./response";
+import type { ResponseHeaders } from "./response";
+
+/**
+ * Renders data for one media type
+ */
+export interface Serializer {
+    /** Media type matched against Accept, e.g. "text/csv" */
+    mediaType: string;
+    /** Other media types this serializer answers to, e.g. "text/xml" */
+    aliases?: string[];
+    /** Content-Type header value (default: mediaType) */
+    contentType?: string;
+    serialize(data: unknown): BodyInit | Promise<BodyInit>;
+}
+
+export interface SerializerRegistry {
+    /** Add a serializer, replacing any registered for the same media type */
+    register(serializer: Serializer): SerializerRegistry;
+    /** Best serializer for an Accept header, or null when nothing acceptable is registered */
+    select(accept: string | null): Serializer | null;
+    /** Registered media types in priority order */
+    readonly mediaTypes: string[];
+}
+
+export interface NegotiateOptions {
+    status?: number;
+    headers?: ResponseHeaders;
+    /** Registry to pick from (default: defaultSerializers) */
+    registry?: SerializerRegistry;
+}
+
+interface MediaRange {
+    type: string;
+    subtype: string;
+    q: number;
+    index: number;
+}
+
+function parseAccept(header: string): MediaRange[] {
+    return header
+        .split(",")
+        .map((part, index) => {
+            const [range = "", ...params] = part.trim().split(";");
+            const [type = "*", subtype = "*"] = range.trim().toLowerCase().split("/");
+            const qParam = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+            const q = qParam ? Number(qParam.slice(2)) : 1;
+            return { type, subtype, q: Number.isNaN(q) ? 0 : q, index };
+        })
+        .filter((range) => range.type !== "");
+}
+
+/**
+ * The most specific range matching a media type decides its quality
+ */
+function matchRange(mediaType: string, ranges: MediaRange[]): MediaRange | null {
+    const [type, subtype] = mediaType.toLowerCase().split("/");
+    let best: MediaRange | null = null;
+    let bestSpecificity = -1;
+
+    for (const range of ranges) {
+        const specificity =
+            range.type === type && range.subtype === subtype ? 2 : range.type === type && range.subtype === "*" ? 1 : range.type === "*" ? 0 : -1;
+        if (specificity > bestSpecificity) {
+            best = range;
+            bestSpecificity = specificity;
+        }
+    }
+    return best;
+}
+
+/**
+ * Create a serializer registry. Without arguments it holds the built-in formats.
+ */
+export function createSerializerRegistry(serializers: Serializer[] = builtInSerializers()): SerializerRegistry {
+    const entries: Serializer[] = [...serializers];
+
+    const registry: SerializerRegistry = {
+        register(serializer) {
+            const existing = entries.findIndex((entry) => entry.mediaType === serializer.mediaType);
+            if (existing >= 0) {
+                entries[existing] = serializer;
+            } else {
+                entries.push(serializer);
+            }
+            return registry;
+        },
+
+        select(accept) {
+            if (!accept || accept.trim() === "") {
+                return entries[0] ?? null;
+            }
+
+            const ranges = parseAccept(accept);
+            let selected: Serializer | null = null;
+            let selectedRange: MediaRange | null = null;
+
+            for (const serializer of entries) {
+                for (const mediaType of [serializer.mediaType, ...(serializer.aliases ?? [])]) {
+                    const range = matchRange(mediaType, ranges);
+                    if (!range || range.q <= 0) continue;
+                    if (!selectedRange || range.q > selectedRange.q || (range.q === selectedRange.q && range.index < selectedRange.index)) {
+                        selected = serializer;
+                        selectedRange = range;
+                    }
+                }
+            }
+            return selected;
+        },
+
+        get mediaTypes() {
+            return entries.map((entry) => entry.mediaType);
+        },
+    };
+
+    return registry;
+}
+
+/**
+ * Render data in the format the client prefers. Responds 406 when no registered format is acceptable.
+ *
+ * @example
+ * ```typescript
+ * app.get('/users', async (ctx) => negotiate(ctx, await db.query('SELECT * FROM users')));
+ *
+ * // Add a format for every negotiate() call
+ * defaultSerializers.register({ mediaType: 'application/yaml', serialize: (data) => toYaml(data) });
+ * ```
+ */
+export async function negotiate(context: { request: Request }, data: unknown, options: NegotiateOptions = {}): Promise<Response> {
+    const registry = options.registry ?? defaultSerializers;
+    const serializer = registry.select(context.request.headers.get("Accept"));
+
+    if (!serializer) {
+        return errorResponse("Not Acceptable", 406, { supported: registry.mediaTypes }, { Vary: "Accept" });
+    }
+
+    const headers = new Headers({ "Content-Type": serializer.contentType ?? serializer.mediaType, Vary: "Accept" });
+    new Headers(options.headers).forEach((value, key) => headers.set(key, value));
+
+    return new Response(await serializer.serialize(data), { status: options.status ?? 200, headers });
+}
+
+// ============================================================================
+// Built-in formats
+// ============================================================================
+
+function toRows(data: unknown): unknown[] {
+    return Array.isArray(data) ? data : [data];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function csvCell(value: unknown): string {
+    const text =
+        value === null || value === undefined
+            ? ""
+            : value instanceof Date
+              ? value.toISOString()
+              : typeof value === "object"
+                ? JSON.stringify(value)
+                : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV. Columns are the union of object keys in first-seen order.
+ */
+function toCsv(data: unknown): string {
+    const rows = toRows(data);
+    if (!rows.every(isRecord)) {
+        return ["value", ...rows.map(csvCell)].join("\r\n") + "\r\n";
+    }
+
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    const lines = [columns.map(csvCell).join(","), ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(","))];
+    return lines.join("\r\n") + "\r\n";
+}
+
+function escapeMarkup(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+function xmlName(key: string): string {
+    const name = key.replace(/[^a-zA-Z0-9_.-]/g, "_");
+    return /^[a-zA-Z_]/.test(name) && !/^xml/i.test(name) ? name : `_${name}`;
+}
+
+function toXmlElement(tag: string, value: unknown): string {
+    if (value === null || value === undefined) {
+        return `<${tag}/>`;
+    }
+    if (Array.isArray(value)) {
+        return `<${tag}>${value.map((item) => toXmlElement("item", item)).join("")}</${tag}>`;
+    }
+    if (isRecord(value)) {
+        const children = Object.entries(value)
+            .filter(([, child]) => child !== undefined)
+            .map(([key, child]) => toXmlElement(xmlName(key), child));
+        return `<${tag}>${children.join("")}</${tag}>`;
+    }
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return `<${tag}>${escapeMarkup(text)}</${tag}>`;
+}
+
+function toXml(data: unknown): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${toXmlElement("response", data)}`;
+}
+
+function toNdjson(data: unknown): string {
+    return toRows(data)
+        .map((row) => JSON.stringify(row) ?? "null")
+        .join("\n")
+        .concat("\n");
+}
+
+function toHtml(data: unknown): string {
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Response</title></head><body><pre>${escapeMarkup(JSON.stringify(data, null, 2) ?? "")}</pre></body></html>`;
+}
+
+/**
+ * Minimal MessagePack encoder covering JSON-compatible values plus binary data
+ */
+function toMessagePack(data: unknown): Uint8Array {
+    const bytes: number[] = [];
+    const encoder = new TextEncoder();
+    const scratch = new DataView(new ArrayBuffer(8));
+
+    const pushScratch = (length: number) => {
+        for (let i = 0; i < length; i++) bytes.push(scratch.getUint8(i));
+    };
+    const pushLength = (length: number, small: number | null, codes: [number, number, number]) => {
+        if (small !== null) {
+            bytes.push(small);
+        } else if (length < 0x100 && codes[0] !== 0) {
+            bytes.push(codes[0], length);
+        } else if (length < 0x10000) {
+            bytes.push(codes[1], length >> 8, length & 0xff);
+        } else {
+            scratch.setUint32(0, length);
+            bytes.push(codes[2]);
+            pushScratch(4);
+        }
+    };
+
+    const encodeInteger = (value: number | bigint) => {
+        if (typeof value === "number" && value >= 0 && value < 0x80) {
+            bytes.push(value);
+        } else if (typeof value === "number" && value < 0 && value >= -32) {
+            bytes.push(value & 0xff);
+        } else if (typeof value === "number" && value >= 0 && value <= 0xffffffff) {
+            if (value < 0x100) bytes.push(0xcc, value);
+            else if (value < 0x10000) bytes.push(0xcd, value >> 8, value & 0xff);
+            else {
+                scratch.setUint32(0, value);
+                bytes.push(0xce);
+                pushScratch(4);
+            }
+        } else if (typeof value === "number" && value < 0 && value >= -0x80000000) {
+            if (value >= -0x80) bytes.push(0xd0, value & 0xff);
+            else if (value >= -0x8000) {
+                scratch.setInt16(0, value);
+                bytes.push(0xd1);
+                pushScratch(2);
+            } else {
+                scratch.setInt32(0, value);
+                bytes.push(0xd2);
+                pushScratch(4);
+            }
+        } else {
+            const big = BigInt(value);
+            if (big >= 0n) {
+                scratch.setBigUint64(0, big);
+                bytes.push(0xcf);
+            } else {
+                scratch.setBigInt64(0, big);
+                bytes.push(0xd3);
+            }
+            pushScratch(8);
+        }
+    };
+
+    const encode = (value: unknown): void => {
+        if (value === null || value === undefined || typeof value === "function" || typeof value === "symbol") {
+            bytes.push(0xc0);
+        } else if (typeof value === "boolean") {
+            bytes.push(value ? 0xc3 : 0xc2);
+        } else if (typeof value === "bigint") {
+            encodeInteger(value);
+        } else if (typeof value === "number") {
+            if (Number.isSafeInteger(value)) {
+                encodeInteger(value);
+            } else {
+                scratch.setFloat64(0, value);
+                bytes.push(0xcb);
+                pushScratch(8);
+            }
+        } else if (typeof value === "string") {
+            const utf8 = encoder.encode(value);
+            pushLength(utf8.length, utf8.length < 32 ? 0xa0 | utf8.length : null, [0xd9, 0xda, 0xdb]);
+            for (const byte of utf8) bytes.push(byte);
+        } else if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+            const binary = value instanceof Uint8Array ? value : new Uint8Array(value);
+            pushLength(binary.length, null, [0xc4, 0xc5, 0xc6]);
+            for (const byte of binary) bytes.push(byte);
+        } else if (Array.isArray(value)) {
+            pushLength(value.length, value.length < 16 ? 0x90 | value.length : null, [0, 0xdc, 0xdd]);
+            value.forEach(encode);
+        } else if (typeof (value as { toJSON?: unknown }).toJSON === "function") {
+            encode((value as { toJSON(): unknown }).toJSON());
+        } else {
+            const entries = Object.entries(value as Record<string, unknown>).filter(
+                ([, child]) => child !== undefined && typeof child !== "function" && typeof child !== "symbol",
+            );
+            pushLength(entries.length, entries.length < 16 ? 0x80 | entries.length : null, [0, 0xde, 0xdf]);
+            for (const [key, child] of entries) {
+                encode(key);
+                encode(child);
+            }
+        }
+    };
+
+    encode(data);
+    return new Uint8Array(bytes);
+}
+
+function builtInSerializers(): Serializer[] {
+    return [
+        { mediaType: "application/json", serialize: (data) => JSON.stringify(data) ?? "null" },
+        { mediaType: "application/x-ndjson", aliases: ["application/ndjson"], serialize: toNdjson },
+        { mediaType: "text/csv", contentType: "text/csv; charset=utf-8", serialize: toCsv },
+        { mediaType: "application/xml", aliases: ["text/xml"], contentType: "application/xml; charset=utf-8", serialize: toXml },
+        { mediaType: "application/msgpack", aliases: ["application/x-msgpack", "application/vnd.msgpack"], serialize: toMessagePack },
+        { mediaType: "text/html", contentType: "text/html; charset=utf-8", serialize: toHtml },
+    ];
+}
+
+/**
+ * Registry used by negotiate() unless another is passed
+ */
+export const defaultSerializers = createSerializerRegistry();
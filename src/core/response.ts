@@ -4,6 +4,8 @@
  * Simple utilities for creating common HTTP responses.
  */
 
+import { withProblem } from "../errors/problem";
+
 export type ResponseHeaders = HeadersInit | Record<string, string>;
 
 function mergeHeaders(base: Record<string, string>, extra?: ResponseHeaders): Headers {
@@ -56,7 +58,7 @@ export function errorResponse(message: string, status: number = 500, details?: u
     if (details !== undefined) {
         body.details = details;
     }
-    return jsonResponse(body, status, headers);
+    return withProblem(jsonResponse(body, status, headers), { status, detail: message, ...(details !== undefined && { details }) });
 }
 
 /**
@@ -84,3 +86,92 @@ export function redirectResponse(location: string, status: number = 302, headers
         headers: mergeHeaders({ Location: location }, headers),
     });
 }
+
+/**
+ * Create an HTML response
+ *
+ * @example
+ * ```typescript
+ * return htmlResponse('<h1>Hello</h1>');
+ * ```
+ */
+export function htmlResponse(html: string, status: number = 200, headers?: ResponseHeaders): Response {
+    return new Response(html, {
+        status,
+        headers: mergeHeaders({ "Content-Type": "text/html; charset=utf-8" }, headers),
+    });
+}
+
+/**
+ * Create a plain text response
+ */
+export function textResponse(text: string, status: number = 200, headers?: ResponseHeaders): Response {
+    return new Response(text, {
+        status,
+        headers: mergeHeaders({ "Content-Type": "text/plain; charset=utf-8" }, headers),
+    });
+}
+
+export interface FileResponseOptions {
+    /** Content type (default: application/octet-stream) */
+    contentType?: string;
+    /** File name for Content-Disposition */
+    filename?: string;
+    /** Show the file in the browser or download it (default: "attachment" when a filename is set) */
+    disposition?: "inline" | "attachment";
+    /** Size in bytes, sent as Content-Length */
+    size?: number;
+    /** Entity tag; bare tags such as `StorageService.download()`'s `etag` are quoted */
+    etag?: string;
+    lastModified?: Date | string;
+    cacheControl?: string;
+    status?: number;
+    headers?: ResponseHeaders;
+}
+
+/**
+ * Create a file download response from a stream, buffer or string
+ *
+ * @example
+ * ```typescript
+ * const file = await storage.download(key);
+ * return fileResponse(file.data ?? null, { contentType: file.contentType, filename: 'report.pdf', etag: file.etag });
+ * ```
+ */
+export function fileResponse(body: BodyInit | null, options: FileResponseOptions = {}): Response {
+    const base: Record<string, string> = { "Content-Type": options.contentType ?? "application/octet-stream" };
+
+    if (options.filename !== undefined) {
+        const fallback = options.filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+        base["Content-Disposition"] =
+            `${options.disposition ?? "attachment"}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(options.filename)}`;
+    } else if (options.disposition) {
+        base["Content-Disposition"] = options.disposition;
+    }
+    if (options.size !== undefined) base["Content-Length"] = String(options.size);
+    if (options.etag) base["ETag"] = formatETag(options.etag);
+    if (options.lastModified) base["Last-Modified"] = new Date(options.lastModified).toUTCString();
+    if (options.cacheControl) base["Cache-Control"] = options.cacheControl;
+
+    return new Response(body, {
+        status: options.status ?? 200,
+        headers: mergeHeaders(base, options.headers),
+    });
+}
+
+/**
+ * Quote a bare entity tag such as the `etag` of an R2 object; quoted and weak (W/"...") tags pass through
+ */
+export function formatETag(etag: string): string {
+    return /^(W\/)?".*"$/.test(etag) ? etag : `"${etag}"`;
+}
+
+/**
+ * Create a 304 Not Modified response. Pass the validators (ETag, Cache-Control, ...) the full response would carry.
+ */
+export function notModified(headers?: ResponseHeaders): Response {
+    return new Response(null, {
+        status: 304,
+        headers: mergeHeaders({}, headers),
+    });
+}
@@ -0,0 +1,488 @@
+/**
+ * Route Tree
+ *
+ * Segment trie used by createApp() to match requests against registered routes.
+ * Routes are compiled once at registration time, so matching cost depends on
+ * path depth rather than on the number of routes.
+ *
+ * Supported segment syntax:
+ * - `:id` param, `:id?` optional param, `:id{[0-9]+}` constrained param
+ * - `:path+` / `:path*` named splat spanning one-or-more / zero-or-more segments
+ * - inline params and extensions such as `v:version`, `:name.json` or `:name.:ext?`
+ * - trailing `/*` wildcard exposed as `params["*"]`
+ *
+ * Priority at each segment: static > pattern (constrained or inline) > `:param` > splat > wildcard.
+ * Failing constraints fall through to the next candidate. A HEAD lookup uses the GET
+ * endpoint of a route that has no HEAD endpoint of its own.
+ */
+
+/**
+ * A successful route lookup
+ */
+export interface RouteMatch<T> {
+    value: T;
+    params: Record<string, string>;
+}
+
+/**
+ * Compiled route lookup structure
+ */
+export interface RouteTree<T> {
+    /** Register a value for a method + path pattern. The first registration wins; method "*" matches any method. */
+    insert(method: string, path: string, value: T): void;
+    /** Find the best match for a method + pathname */
+    match(method: string, pathname: string): RouteMatch<T> | null;
+    /** List every method registered for routes matching the pathname, in registration order */
+    allowedMethods(pathname: string): string[];
+}
+
+interface Endpoint<T> {
+    value: T;
+    paramNames: string[];
+    /** Registration sequence, so Allow lists methods in the order routes were added */
+    order: number;
+}
+
+interface PatternChild<T> {
+    key: string;
+    pattern: RegExp;
+    groupCount: number;
+    node: RouteNode<T>;
+}
+
+interface SplatChild<T> {
+    key: string;
+    minSegments: number;
+    constraint: RegExp | null;
+    node: RouteNode<T>;
+}
+
+interface RouteNode<T> {
+    staticChildren: Map<string, RouteNode<T>>;
+    patternChildren: PatternChild<T>[];
+    paramChild: RouteNode<T> | null;
+    splatChildren: SplatChild<T>[];
+    endpoints: Map<string, Endpoint<T>>;
+    wildcards: Map<string, Endpoint<T>>;
+}
+
+interface ParamToken {
+    type: "param";
+    name: string;
+    constraint?: string;
+    modifier?: "?" | "+" | "*";
+}
+
+type SegmentToken = { type: "text"; value: string } | ParamToken;
+
+/**
+ * A path segment classified for insertion
+ */
+type CompiledSegment =
+    | { kind: "static"; value: string }
+    | { kind: "param"; name: string }
+    | { kind: "pattern"; key: string; pattern: RegExp; names: string[] }
+    | { kind: "splat"; key: string; name: string; minSegments: number; constraint: RegExp | null };
+
+const ANY_METHOD = "*";
+const IDENTIFIER_CHAR = /[a-zA-Z0-9_]/;
+
+function createNode<T>(): RouteNode<T> {
+    return {
+        staticChildren: new Map(),
+        patternChildren: [],
+        paramChild: null,
+        splatChildren: [],
+        endpoints: new Map(),
+        wildcards: new Map(),
+    };
+}
+
+/**
+ * Split a request path into segments. "/" yields [""], "/a/b" yields ["a", "b"].
+ */
+function splitPath(path: string): string[] {
+    return (path.startsWith("/") ? path.slice(1) : path).split("/");
+}
+
+/**
+ * Split a route pattern into segments, ignoring "/" inside `{...}` constraints
+ */
+function splitPattern(path: string): string[] {
+    const segments: string[] = [];
+    let current = "";
+    let depth = 0;
+
+    for (let i = path.startsWith("/") ? 1 : 0; i < path.length; i++) {
+        const char = path[i]!;
+        if (char === "\\") {
+            current += char + (path[i + 1] ?? "");
+            i++;
+            continue;
+        }
+        if (char === "{") depth++;
+        if (char === "}") depth--;
+        if (char === "/" && depth === 0) {
+            segments.push(current);
+            current = "";
+            continue;
+        }
+        current += char;
+    }
+
+    segments.push(current);
+    return segments;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Tokenize one segment into literal text and `:name{constraint}?` params
+ */
+function tokenizeSegment(segment: string): SegmentToken[] {
+    const tokens: SegmentToken[] = [];
+    let text = "";
+    let i = 0;
+
+    while (i < segment.length) {
+        const char = segment[i]!;
+        const nextChar = segment[i + 1];
+        if (char !== ":" || nextChar === undefined || !/[a-zA-Z_]/.test(nextChar)) {
+            text += char;
+            i++;
+            continue;
+        }
+
+        if (text) {
+            tokens.push({ type: "text", value: text });
+            text = "";
+        }
+
+        let name = "";
+        i++;
+        while (i < segment.length && IDENTIFIER_CHAR.test(segment[i]!)) {
+            name += segment[i];
+            i++;
+        }
+
+        const token: ParamToken = { type: "param", name };
+
+        if (segment[i] === "{") {
+            let depth = 1;
+            let constraint = "";
+            i++;
+            while (i < segment.length) {
+                const c = segment[i]!;
+                if (c === "\\") {
+                    constraint += c + (segment[i + 1] ?? "");
+                    i += 2;
+                    continue;
+                }
+                if (c === "{") depth++;
+                if (c === "}" && --depth === 0) break;
+                constraint += c;
+                i++;
+            }
+            if (depth !== 0) {
+                throw new Error(`Unterminated constraint for :${name} in route segment "${segment}"`);
+            }
+            token.constraint = constraint;
+            i++;
+        }
+
+        const modifier = segment[i];
+        if (modifier === "?" || modifier === "+" || modifier === "*") {
+            token.modifier = modifier;
+            i++;
+        }
+
+        tokens.push(token);
+    }
+
+    if (text) {
+        tokens.push({ type: "text", value: text });
+    }
+    return tokens;
+}
+
+/**
+ * Compile a segment mixing text and params into one anchored RegExp.
+ * An optional param absorbs a directly preceding "." or "-" (e.g. `:name.:ext?`).
+ */
+function compileSegmentPattern(tokens: SegmentToken[]): { pattern: RegExp; names: string[] } {
+    const names: string[] = [];
+    let source = "";
+
+    tokens.forEach((token, index) => {
+        if (token.type === "text") {
+            const next = tokens[index + 1];
+            const absorbed = next?.type === "param" && next.modifier === "?" && /[.-]$/.test(token.value);
+            source += escapeRegExp(absorbed ? token.value.slice(0, -1) : token.value);
+            return;
+        }
+
+        if (token.modifier === "+" || token.modifier === "*") {
+            throw new Error(`Splat :${token.name}${token.modifier} must be a whole path segment`);
+        }
+
+        const group = `(?<p${names.length}>${token.constraint ?? "[^/]+?"})`;
+        names.push(token.name);
+
+        if (token.modifier === "?") {
+            const previous = tokens[index - 1];
+            const separator = previous?.type === "text" && /[.-]$/.test(previous.value) ? escapeRegExp(previous.value.slice(-1)) : "";
+            source += `(?:${separator}${group})?`;
+        } else {
+            source += group;
+        }
+    });
+
+    return { pattern: new RegExp(`^${source}$`, "i"), names };
+}
+
+/**
+ * Classify a pattern segment. Whole-segment optional params expand into two variants.
+ */
+function compileSegment(segment: string): { compiled: CompiledSegment; optional: boolean } {
+    const tokens = tokenizeSegment(segment);
+    const only = tokens.length === 1 ? tokens[0]! : null;
+
+    if (tokens.length === 0 || (only && only.type === "text")) {
+        return { compiled: { kind: "static", value: segment.toLowerCase() }, optional: false };
+    }
+
+    if (only && only.type === "param") {
+        const constraint = only.constraint !== undefined ? new RegExp(`^(?:${only.constraint})$`, "i") : null;
+
+        if (only.modifier === "+" || only.modifier === "*") {
+            return {
+                compiled: {
+                    kind: "splat",
+                    key: `${only.modifier}${only.constraint ?? ""}`,
+                    name: only.name,
+                    minSegments: only.modifier === "+" ? 1 : 0,
+                    constraint,
+                },
+                optional: false,
+            };
+        }
+
+        const optional = only.modifier === "?";
+        if (!constraint) {
+            return { compiled: { kind: "param", name: only.name }, optional };
+        }
+
+        const { pattern, names } = compileSegmentPattern([{ type: "param", name: only.name, constraint: only.constraint }]);
+        return { compiled: { kind: "pattern", key: pattern.source, pattern, names }, optional };
+    }
+
+    const { pattern, names } = compileSegmentPattern(tokens);
+    return { compiled: { kind: "pattern", key: pattern.source, pattern, names }, optional: false };
+}
+
+/**
+ * Create an empty route tree
+ */
+export function createRouteTree<T>(): RouteTree<T> {
+    const root = createNode<T>();
+    let registrations = 0;
+
+    function descend(node: RouteNode<T>, segment: CompiledSegment): RouteNode<T> {
+        switch (segment.kind) {
+            case "static": {
+                let child = node.staticChildren.get(segment.value);
+                if (!child) {
+                    child = createNode<T>();
+                    node.staticChildren.set(segment.value, child);
+                }
+                return child;
+            }
+            case "param":
+                node.paramChild ??= createNode<T>();
+                return node.paramChild;
+            case "pattern": {
+                let child = node.patternChildren.find((c) => c.key === segment.key);
+                if (!child) {
+                    child = { key: segment.key, pattern: segment.pattern, groupCount: segment.names.length, node: createNode<T>() };
+                    node.patternChildren.push(child);
+                }
+                return child.node;
+            }
+            case "splat": {
+                let child = node.splatChildren.find((c) => c.key === segment.key);
+                if (!child) {
+                    child = { key: segment.key, minSegments: segment.minSegments, constraint: segment.constraint, node: createNode<T>() };
+                    node.splatChildren.push(child);
+                }
+                return child.node;
+            }
+        }
+    }
+
+    function insert(method: string, path: string, value: T): void {
+        const upperMethod = method.toUpperCase();
+        const order = registrations++;
+        let isWildcard = false;
+
+        if (path.endsWith("/*")) {
+            isWildcard = true;
+            path = path.slice(0, -2);
+        }
+
+        // A bare "/*" (or "" after stripping) hangs its wildcard off the root
+        const segments = isWildcard && path === "" ? [] : splitPattern(path).map(compileSegment);
+
+        // Each whole-segment optional param doubles the variants: with and without it
+        let variants: CompiledSegment[][] = [[]];
+        for (const { compiled, optional } of segments) {
+            const withSegment = variants.map((variant) => [...variant, compiled]);
+            variants = optional ? [...withSegment, ...variants] : withSegment;
+        }
+
+        for (const variant of variants) {
+            const paramNames: string[] = [];
+            let node = root;
+
+            for (const segment of variant) {
+                if (segment.kind === "param" || segment.kind === "splat") paramNames.push(segment.name);
+                if (segment.kind === "pattern") paramNames.push(...segment.names);
+                node = descend(node, segment);
+            }
+
+            const target = isWildcard ? node.wildcards : node.endpoints;
+            if (!target.has(upperMethod)) {
+                target.set(upperMethod, { value, paramNames, order });
+            }
+        }
+    }
+
+    /**
+     * Depth-first walk in priority order. `visit` returns true to stop the walk.
+     */
+    function walk(
+        node: RouteNode<T>,
+        segments: string[],
+        index: number,
+        values: Array<string | undefined>,
+        visit: (endpoints: Map<string, Endpoint<T>>, values: Array<string | undefined>, splat: string | undefined) => boolean,
+    ): boolean {
+        if (index === segments.length && visit(node.endpoints, values, undefined)) {
+            return true;
+        }
+
+        if (index < segments.length) {
+            const segment = segments[index]!;
+
+            const staticChild = node.staticChildren.get(segment.toLowerCase());
+            if (staticChild && walk(staticChild, segments, index + 1, values, visit)) {
+                return true;
+            }
+
+            for (const child of node.patternChildren) {
+                const match = segment.match(child.pattern);
+                if (!match) continue;
+                const captured = Array.from({ length: child.groupCount }, (_, i) => match.groups?.[`p${i}`]);
+                if (walk(child.node, segments, index + 1, [...values, ...captured], visit)) {
+                    return true;
+                }
+            }
+
+            if (node.paramChild && segment !== "" && walk(node.paramChild, segments, index + 1, [...values, segment], visit)) {
+                return true;
+            }
+        }
+
+        // Splats are greedy: try the longest span first, then back off
+        for (const child of node.splatChildren) {
+            for (let end = segments.length; end - index >= child.minSegments; end--) {
+                const span = segments.slice(index, end);
+                if (span.includes("") && span.length > 0) continue;
+                const joined = span.join("/");
+                if (child.constraint && !child.constraint.test(joined)) continue;
+                if (walk(child.node, segments, end, [...values, joined], visit)) {
+                    return true;
+                }
+            }
+        }
+
+        if (node.wildcards.size > 0) {
+            return visit(node.wildcards, values, segments.slice(index).join("/"));
+        }
+
+        return false;
+    }
+
+    function match(method: string, pathname: string): RouteMatch<T> | null {
+        const upperMethod = method.toUpperCase();
+        let result: RouteMatch<T> | null = null;
+
+        walk(root, splitPath(pathname), 0, [], (endpoints, values, splat) => {
+            const endpoint = endpoints.get(upperMethod) ?? (upperMethod === "HEAD" ? endpoints.get("GET") : undefined) ?? endpoints.get(ANY_METHOD);
+            if (!endpoint) return false;
+
+            const params: Record<string, string> = {};
+            endpoint.paramNames.forEach((name, index) => {
+                const paramValue = values[index];
+                if (paramValue !== undefined) {
+                    params[name] = paramValue;
+                }
+            });
+            if (splat !== undefined) {
+                params["*"] = splat;
+            }
+
+            result = { value: endpoint.value, params };
+            return true;
+        });
+
+        return result;
+    }
+
+    function allowedMethods(pathname: string): string[] {
+        const methods = new Map<string, number>();
+
+        walk(root, splitPath(pathname), 0, [], (endpoints) => {
+            for (const [method, endpoint] of endpoints) {
+                if (method !== ANY_METHOD) methods.set(method, Math.min(endpoint.order, methods.get(method) ?? Infinity));
+            }
+            return false;
+        });
+
+        return [...methods].sort((a, b) => a[1] - b[1]).map(([method]) => method);
+    }
+
+    return { insert, match, allowedMethods };
+}
+
+/**
+ * Compile a host pattern such as `api.example.com`, `:tenant.app.example.com` or
+ * `*.example.com` into a matcher. `:name` captures one label, `*` one or more labels.
+ * Matching ignores case and any port.
+ */
+export function compileHostPattern(host: string): (hostname: string) => Record<string, string> | null {
+    const paramNames: string[] = [];
+    const source = host
+        .split(".")
+        .map((label) => {
+            if (label === "*") return "[^:]+";
+            return escapeRegExp(label).replace(/:([a-zA-Z_][a-zA-Z0-9_]*)/g, (_, name: string) => {
+                paramNames.push(name);
+                return "([^.:]+)";
+            });
+        })
+        .join("\\.");
+    const pattern = new RegExp(`^${source}(?::\\d+)?$`, "i");
+
+    return (hostname) => {
+        const match = hostname.match(pattern);
+        if (!match) return null;
+
+        const params: Record<string, string> = {};
+        paramNames.forEach((name, index) => {
+            params[name] = match[index + 1]!.toLowerCase();
+        });
+        return params;
+    };
+}
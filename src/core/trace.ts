@@ -0,0 +1,92 @@
+/**
+ * W3C Trace Context
+ *
+ * Parses and creates `traceparent` IDs so a request can be followed through
+ * logs and the outbound calls it makes (OAuth, mail, AI Gateway).
+ */
+
+export interface TraceContext {
+    /** 32 hex characters shared by every span in the trace */
+    traceId: string;
+    /** 16 hex characters identifying this request's span */
+    spanId: string;
+    /** Span of the caller, from an incoming `traceparent` */
+    parentSpanId?: string;
+    sampled: boolean;
+    /** Vendor data from an incoming `tracestate`, forwarded unchanged */
+    traceState?: string;
+    /** Value echoed in `X-Request-Id` */
+    requestId: string;
+}
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const REQUEST_ID = /^[\w.:@/+=-]{1,200}$/;
+
+function randomHex(bytes: number): string {
+    return [...crypto.getRandomValues(new Uint8Array(bytes))].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Parse a `traceparent` header; returns null when it is missing or invalid
+ */
+export function parseTraceparent(header: string | null): { traceId: string; parentSpanId: string; sampled: boolean } | null {
+    const match = header ? TRACEPARENT.exec(header.trim().toLowerCase()) : null;
+    if (!match) return null;
+
+    const [, version, traceId, parentSpanId, flags, rest] = match;
+    if (version === "ff" || (version === "00" && rest !== undefined)) return null;
+    if (/^0+$/.test(traceId!) || /^0+$/.test(parentSpanId!)) return null;
+
+    return { traceId: traceId!, parentSpanId: parentSpanId!, sampled: (parseInt(flags!, 16) & 1) === 1 };
+}
+
+/**
+ * Request ID sent by the client, when it is a safe token of at most 200 characters
+ */
+export function incomingRequestId(request: Request, header = "X-Request-Id"): string | undefined {
+    const value = request.headers.get(header);
+    return value && REQUEST_ID.test(value) ? value : undefined;
+}
+
+/**
+ * Continue the caller's trace (or start one) with a new span for this request
+ *
+ * Without a request, or without valid incoming headers, new IDs are generated.
+ */
+export function createTraceContext(request?: Request, requestIdHeader = "X-Request-Id"): TraceContext {
+    const parent = parseTraceparent(request?.headers.get("traceparent") ?? null);
+    const traceState = parent ? request?.headers.get("tracestate") : null;
+
+    return {
+        traceId: parent?.traceId ?? randomHex(16),
+        spanId: randomHex(8),
+        ...(parent && { parentSpanId: parent.parentSpanId }),
+        sampled: parent?.sampled ?? true,
+        ...(traceState && { traceState }),
+        requestId: (request && incomingRequestId(request, requestIdHeader)) ?? crypto.randomUUID(),
+    };
+}
+
+/**
+ * `traceparent` value naming this request's span as the parent of an outbound call
+ */
+export function formatTraceparent(trace: TraceContext): string {
+    return `00-${trace.traceId}-${trace.spanId}-${trace.sampled ? "01" : "00"}`;
+}
+
+/**
+ * Headers that propagate a trace to an outbound fetch
+ *
+ * @example
+ * ```typescript
+ * await fetch('https://api.example.com/orders', { headers: { ...traceHeaders(ctx.get('trace')) } });
+ * ```
+ */
+export function traceHeaders(trace: TraceContext | undefined): Record<string, string> {
+    if (!trace) return {};
+    return {
+        traceparent: formatTraceparent(trace),
+        ...(trace.traceState && { tracestate: trace.traceState }),
+        "X-Request-Id": trace.requestId,
+    };
+}
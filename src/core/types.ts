@@ -2,34 +2,135 @@
  * Core Type Definitions
  */
 
-import type { Plugin } from "../plugins/types";
+import type { Plugin, Logger as PluginLogger } from "../plugins/types";
+import type { ServiceContainer } from "../services/index";
 
-export interface RequestContext<Env extends Record<string, unknown> = Record<string, unknown>> {
+/**
+ * Default shape of route params when the path is not a string literal
+ */
+export type Params = Record<string, string>;
+
+/** Characters that end a `:name` param inside a segment (e.g. `:name.json`) */
+type ParamTerminator = "." | "-" | "~" | "{" | "}" | "?" | "+" | "*" | "(" | ")";
+
+/** Drop inline `{...}` constraints so they do not leak into param names */
+type StripConstraints<S extends string> = S extends `${infer Head}{${string}}${infer Tail}` ? `${Head}${StripConstraints<Tail>}` : S;
+
+/** Param name, suffixed with "?" when the param is optional (`:name?`) */
+type ParamName<S extends string, Acc extends string = ""> = S extends `${infer Char}${infer Rest}`
+    ? Char extends ParamTerminator
+        ? Char extends "?"
+            ? `${Acc}?`
+            : Acc
+        : ParamName<Rest, `${Acc}${Char}`>
+    : Acc;
+
+type SegmentParamNames<Segment extends string> = Segment extends `${string}:${infer Rest}` ? ParamName<Rest> | SegmentParamNames<Rest> : never;
+
+type PathParamNames<Path extends string> = Path extends `${infer Segment}/${infer Rest}`
+    ? SegmentParamNames<Segment> | PathParamNames<Rest>
+    : SegmentParamNames<Path>;
+
+type WildcardParamName<Path extends string> = Path extends `${string}/*` | "*" ? "*" : never;
+
+type RouteParamKeys<Path extends string> = PathParamNames<StripConstraints<Path>> | WildcardParamName<Path>;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+/**
+ * Route params inferred from a path literal
+ *
+ * @example
+ * ```typescript
+ * type P = RouteParams<"/users/:id/posts/:postId">; // { id: string; postId: string }
+ * type S = RouteParams<"/static/*">; // { "*": string }
+ * type O = RouteParams<"/files/:name?">; // { name?: string }
+ * ```
+ */
+export type RouteParams<Path extends string> = string extends Path
+    ? Params
+    : Simplify<
+          { [K in RouteParamKeys<Path> as K extends "" | `${string}?` ? never : K]: string } & {
+              [K in RouteParamKeys<Path> as K extends `${infer Name}?` ? (Name extends "" ? never : Name) : never]?: string;
+          }
+      >;
+
+/**
+ * Typed request context. `Variables` describes the values middleware store for later
+ * handlers; read and write them with `get`/`set` (they live in `state`).
+ */
+export interface RequestContext<
+    Env extends Record<string, unknown> = Record<string, unknown>,
+    P extends Params = Params,
+    Services extends object = {},
+    Variables extends object = {},
+> {
     request: Request;
     url: URL;
     env: Env;
     executionContext: ExecutionContext;
     state: Record<string, unknown>;
-    params: Record<string, string>;
+    params: P;
     query: Record<string, string | string[]>;
+    /** Aborts when the client disconnects or a timeoutMiddleware() deadline passes; pass it to D1, AI and fetch calls */
+    signal: AbortSignal;
+    /** Services from the app's container, resolved on first access */
+    services: Services;
+    /** Read a variable stored by earlier middleware */
+    get<K extends keyof Variables & string>(key: K): Variables[K];
+    /** Store a variable for later middleware and handlers */
+    set<K extends keyof Variables & string>(key: K, value: Variables[K]): void;
     [key: string]: unknown;
 }
 
-export type Middleware<Env extends Record<string, unknown> = Record<string, unknown>> = (
-    context: RequestContext<Env>,
-) => Promise<Response | void> | Response | void;
+/**
+ * Runs the rest of the middleware chain and resolves to its Response
+ */
+export type Next = () => Promise<Response>;
+
+/**
+ * Middleware either short-circuits by returning a Response, continues by returning
+ * nothing, or wraps the rest of the chain by awaiting `next()` and returning
+ * (or rewriting) the downstream Response.
+ */
+export type Middleware<
+    Env extends Record<string, unknown> = Record<string, unknown>,
+    P extends Params = Params,
+    Services extends object = {},
+    Variables extends object = {},
+> = (context: RequestContext<Env, P, Services, Variables>, next: Next) => Promise<Response | void> | Response | void;
 
-export type Handler<Env extends Record<string, unknown> = Record<string, unknown>> = (context: RequestContext<Env>) => Promise<Response> | Response;
+export type Handler<
+    Env extends Record<string, unknown> = Record<string, unknown>,
+    P extends Params = Params,
+    Services extends object = {},
+    Variables extends object = {},
+> = (context: RequestContext<Env, P, Services, Variables>) => Promise<Response> | Response;
 
-export interface AppOptions<Env extends Record<string, unknown> = Record<string, unknown>> {
+export interface AppOptions<Env extends Record<string, unknown> = Record<string, unknown>, Services extends object = {}> {
+    /** @deprecated Register a typed service with `services` instead */
     database?: unknown;
+    /** @deprecated Register a typed service with `services` instead */
     cache?: unknown;
+    /** @deprecated Register a typed service with `services` instead */
     storage?: unknown;
+    /** @deprecated Register a typed service with `services` instead */
     queue?: unknown;
-    logger?: unknown;
+    /** Logger handed to plugins and lifecycle hooks (default: createLogger({ service: "cloudflare-kit" })) */
+    logger?: PluginLogger;
+    /** @deprecated Register a typed service with `services` instead */
     auth?: unknown;
+    /** Service container exposed to handlers as `ctx.services` (see createServices) */
+    services?: ServiceContainer<Env, Services>;
     plugins?: Plugin[];
-    onError?: (error: unknown, context: RequestContext<Env>) => Response | Promise<Response>;
+    /** Configuration passed to plugins as `context.config` and `app.config` */
+    config?: Record<string, unknown>;
+    onError?: (error: unknown, context: RequestContext<Env, Params, Services>) => Response | Promise<Response>;
     /** Normalize trailing slashes before matching (default: false) */
     trailingSlash?: "ignore" | "redirect" | false;
+    /**
+     * Render error responses as RFC 9457 application/problem+json (default: false).
+     * With `typeBase`, error codes become problem type URIs such as `${typeBase}rate-limited`.
+     */
+    problemDetails?: boolean | { typeBase?: string };
 }
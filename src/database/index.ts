@@ -6,15 +6,45 @@
 
 import type { D1Database, D1Result, DatabaseOptions } from "./types";
 import { DatabaseError } from "../errors/index";
+import { raceSignal } from "../core/abort";
+import { createQueryBuilder, type CompiledQuery, type QueryBuilder, type WhereFilter } from "./query-builder";
+import { runTransaction, type Transaction } from "./transaction";
+import { paginate, type CursorPage, type CursorPaginationOptions, type OffsetPage, type OffsetPaginationOptions } from "./pagination";
+import type { InferInsert, InferRow, InferUpdate, Table } from "./schema";
+export type { Transaction, TransactionStatement, ReturningOptions } from "./transaction";
+export { paginate, paginatedResponse, paginationQuery } from "./pagination";
+export type { PaginationOrder, CursorPaginationOptions, OffsetPaginationOptions, CursorPage, OffsetPage } from "./pagination";
+export { createMigrator, parseMigrationFile, splitStatements } from "./migrations";
+export type { Migration, MigrationStatus, MigrationStep, MigrationResult, MigratorOptions, MigrateOptions, Migrator } from "./migrations";
 
 export type { D1Database, D1Result, DatabaseOptions };
+export { createQueryBuilder };
+export type { QueryBuilder, QueryExecutor, WhereFilter, CompiledQuery, OrderDirection, JoinType } from "./query-builder";
+export { column, defineTable, createTableSQL, Column } from "./schema";
+export type {
+    ColumnKind,
+    ColumnConfig,
+    ForeignKeyAction,
+    AnyColumn,
+    ColumnMap,
+    Table,
+    TableIndex,
+    TableOptions,
+    InferRow,
+    InferInsert,
+    InferUpdate,
+} from "./schema";
 
-export type WhereOperator = "eq" | "neq" | "in" | "isNull";
+export type WhereOperator = "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "like" | "between" | "in" | "isNull";
 export interface WhereCondition {
     op: WhereOperator;
+    /** Array for `in`, `[low, high]` for `between`, unused for `isNull` */
     value?: unknown;
 }
-export type WhereClause = Record<string, unknown | WhereCondition>;
+/** Column conditions combined with AND; `$or` holds alternative clauses */
+export type WhereClause = Record<string, unknown | WhereCondition> & { $or?: WhereClause[] };
+
+const COMPARISONS: Partial<Record<WhereOperator, string>> = { eq: "=", neq: "!=", gt: ">", gte: ">=", lt: "<", lte: "<=", like: "LIKE" };
 
 /**
  * Validates SQL identifiers (table names, column names)
@@ -29,9 +59,26 @@ function validateIdentifier(name: string): string {
 }
 
 /**
- * Build a parameterized WHERE clause from structured AND conditions.
+ * Validates a column name, optionally qualified by its table (`teams.name`)
+ */
+function validateColumn(name: string): string {
+    const parts = name.split(".");
+    if (parts.length > 2) {
+        throw new DatabaseError(`Invalid SQL identifier: ${name}`);
+    }
+    parts.forEach(validateIdentifier);
+    return name;
+}
+
+/**
+ * Build a parameterized WHERE clause from structured AND conditions and `$or` groups.
  */
 function buildWhereClause(where: WhereClause): { clause: string; params: unknown[] } {
+    const { parts, params } = compileConditions(where);
+    return { clause: parts.join(" AND "), params };
+}
+
+function compileConditions(where: WhereClause): { parts: string[]; params: unknown[] } {
     const keys = Object.keys(where);
     if (keys.length === 0) {
         throw new DatabaseError("WHERE clause requires at least one condition");
@@ -41,23 +88,49 @@ function buildWhereClause(where: WhereClause): { clause: string; params: unknown
     const params: unknown[] = [];
 
     for (const key of keys) {
-        validateIdentifier(key);
+        if (key === "$or") {
+            const branches = where.$or;
+            if (!Array.isArray(branches) || branches.length === 0) {
+                throw new DatabaseError("$or requires a non-empty array of clauses");
+            }
+            const compiled = branches.map((branch) => {
+                const { parts: branchParts, params: branchParams } = compileConditions(branch);
+                params.push(...branchParams);
+                return branchParts.length > 1 ? `(${branchParts.join(" AND ")})` : branchParts[0];
+            });
+            parts.push(`(${compiled.join(" OR ")})`);
+            continue;
+        }
+
+        validateColumn(key);
         const condition = where[key];
+        if (condition === null || (isWhereCondition(condition) && condition.value === null && (condition.op === "eq" || condition.op === "neq"))) {
+            // `= NULL` never matches in SQL
+            parts.push(`${key} ${condition?.op === "neq" ? "IS NOT NULL" : "IS NULL"}`);
+            continue;
+        }
         if (!isWhereCondition(condition)) {
             parts.push(`${key} = ?`);
             params.push(condition);
             continue;
         }
 
+        const comparison = COMPARISONS[condition.op];
+        if (comparison) {
+            parts.push(`${key} ${comparison} ?`);
+            params.push(condition.value);
+            continue;
+        }
+
         switch (condition.op) {
-            case "eq":
-                parts.push(`${key} = ?`);
-                params.push(condition.value);
-                break;
-            case "neq":
-                parts.push(`${key} != ?`);
-                params.push(condition.value);
+            case "between": {
+                if (!Array.isArray(condition.value) || condition.value.length !== 2) {
+                    throw new DatabaseError(`BETWEEN condition for ${key} requires [low, high]`);
+                }
+                parts.push(`${key} BETWEEN ? AND ?`);
+                params.push(condition.value[0], condition.value[1]);
                 break;
+            }
             case "in": {
                 if (!Array.isArray(condition.value) || condition.value.length === 0) {
                     throw new DatabaseError(`IN condition for ${key} requires a non-empty array`);
@@ -69,10 +142,59 @@ function buildWhereClause(where: WhereClause): { clause: string; params: unknown
             case "isNull":
                 parts.push(`${key} IS NULL`);
                 break;
+            default:
+                throw new DatabaseError(`Unsupported WHERE operator for ${key}: ${String(condition.op)}`);
         }
     }
 
-    return { clause: parts.join(" AND "), params };
+    return { parts, params };
+}
+
+function tableName(table: string | Table): string {
+    return typeof table === "string" ? table : table.name;
+}
+
+/** Columns for a RETURNING clause: "*" or plain column names */
+export type Returning = "*" | string[];
+
+function returningClause(returning: Returning | undefined): string {
+    if (returning === undefined) return "";
+    if (returning === "*") return " RETURNING *";
+    if (returning.length === 0) throw new DatabaseError("RETURNING needs at least one column");
+    return ` RETURNING ${returning.map(validateIdentifier).join(", ")}`;
+}
+
+/**
+ * Parameterized INSERT, shared by insert() and transactions
+ */
+function compileInsert(table: string | Table, data: Record<string, unknown>, returning?: Returning): CompiledQuery {
+    const name = validateIdentifier(tableName(table));
+    const keys = Object.keys(data);
+    keys.forEach(validateIdentifier);
+
+    const placeholders = keys.map(() => "?").join(", ");
+    return { sql: `INSERT INTO ${name} (${keys.join(", ")}) VALUES (${placeholders})${returningClause(returning)}`, params: Object.values(data) };
+}
+
+/**
+ * Parameterized UPDATE, shared by update() and transactions
+ */
+function compileUpdate(table: string | Table, data: Record<string, unknown>, where: WhereClause, returning?: Returning): CompiledQuery {
+    const name = validateIdentifier(tableName(table));
+    const keys = Object.keys(data);
+    keys.forEach(validateIdentifier);
+
+    const { clause, params: whereParams } = buildWhereClause(where);
+    const setClause = keys.map((key) => `${key} = ?`).join(", ");
+    return { sql: `UPDATE ${name} SET ${setClause} WHERE ${clause}${returningClause(returning)}`, params: [...Object.values(data), ...whereParams] };
+}
+
+/**
+ * Parameterized DELETE, shared by delete() and transactions
+ */
+function compileDelete(table: string | Table, where: WhereClause, returning?: Returning): CompiledQuery {
+    const { clause, params } = buildWhereClause(where);
+    return { sql: `DELETE FROM ${validateIdentifier(tableName(table))} WHERE ${clause}${returningClause(returning)}`, params };
 }
 
 function isWhereCondition(value: unknown): value is WhereCondition {
@@ -83,11 +205,28 @@ export interface DatabaseService {
     query<T = unknown>(sql: string, params?: unknown[]): Promise<D1Result<T>>;
     get<T = unknown>(sql: string, params?: unknown[]): Promise<T | null>;
     execute(sql: string, params?: unknown[]): Promise<D1Result>;
+    /** Insert a row; with a defineTable() table, `data` is checked against its columns */
+    insert<T extends Table>(table: T, data: InferInsert<T>): Promise<string | number | null>;
     insert(table: string, data: Record<string, unknown>): Promise<string | number | null>;
+    update<T extends Table>(table: T, data: InferUpdate<T>, where: WhereFilter<InferRow<T>>): Promise<number>;
     update(table: string, data: Record<string, unknown>, where: WhereClause): Promise<number>;
+    delete<T extends Table>(table: T, where: WhereFilter<InferRow<T>>): Promise<number>;
     delete(table: string, where: WhereClause): Promise<number>;
     batch<T = unknown>(queries: { sql: string; params: unknown[] }[]): Promise<D1Result<T>[]>;
+    /** Start a chainable SELECT on `table` (`users` or `users AS u`) */
+    from<T extends Table>(table: T): QueryBuilder<InferRow<T>>;
+    from<Row = Record<string, unknown>>(table: string): QueryBuilder<Row>;
+    /** Offset page (with `page`) or signed keyset page of `query`; cursors use `cursorSecret` unless `secret` is given */
+    paginate<Row>(query: QueryBuilder<Row>, options: OffsetPaginationOptions<Row>): Promise<OffsetPage<Row>>;
+    paginate<Row>(query: QueryBuilder<Row>, options: CursorPaginationOptions<Row>): Promise<CursorPage<Row>>;
+    /**
+     * Collect the statements queued on `tx` and commit them as one atomic D1 batch
+     * once `callback` resolves; nothing runs if it throws
+     */
+    transaction<T>(callback: (tx: Transaction) => T | Promise<T>): Promise<T>;
     getBinding(): D1Database;
+    /** Copy of this service whose calls reject once `signal` aborts */
+    withSignal(signal: AbortSignal): DatabaseService;
 }
 
 /**
@@ -95,91 +234,109 @@ export interface DatabaseService {
  */
 export function createDatabase(options: DatabaseOptions): DatabaseService {
     const db = options.binding;
+    const signal = options.signal;
+
+    /**
+     * D1 calls cannot be cancelled, so an aborted signal rejects the caller with its reason
+     * (not a DatabaseError) and skips calls that have not started yet.
+     */
+    async function guarded<T>(operation: () => Promise<T>, fallbackMessage: string, sql?: string): Promise<T> {
+        try {
+            signal?.throwIfAborted();
+            return await raceSignal(operation(), signal);
+        } catch (error) {
+            if (signal?.aborted) throw signal.reason;
+            throw new DatabaseError(error instanceof Error ? error.message : fallbackMessage, sql, error instanceof Error ? error : undefined);
+        }
+    }
+
+    /** paginate() with `cursorSecret` as the default cursor secret */
+    function paginateQuery<Row>(query: QueryBuilder<Row>, paging: OffsetPaginationOptions<Row>): Promise<OffsetPage<Row>>;
+    function paginateQuery<Row>(query: QueryBuilder<Row>, paging: CursorPaginationOptions<Row>): Promise<CursorPage<Row>>;
+    function paginateQuery<Row>(
+        query: QueryBuilder<Row>,
+        paging: OffsetPaginationOptions<Row> | CursorPaginationOptions<Row>,
+    ): Promise<OffsetPage<Row> | CursorPage<Row>> {
+        return "page" in paging ? paginate(query, paging) : paginate(query, { ...paging, secret: paging.secret ?? options.cursorSecret });
+    }
 
     return {
         async query<T = unknown>(sql: string, params: unknown[] = []): Promise<D1Result<T>> {
-            try {
-                const statement = db.prepare(sql);
-                return await statement.bind(...params).all<T>();
-            } catch (error) {
-                throw new DatabaseError(error instanceof Error ? error.message : "Database query failed", sql, error instanceof Error ? error : undefined);
-            }
+            return guarded(
+                () =>
+                    db
+                        .prepare(sql)
+                        .bind(...params)
+                        .all<T>(),
+                "Database query failed",
+                sql,
+            );
         },
 
         async get<T = unknown>(sql: string, params: unknown[] = []): Promise<T | null> {
-            try {
-                const statement = db.prepare(sql);
-                return await statement.bind(...params).first<T>();
-            } catch (error) {
-                throw new DatabaseError(error instanceof Error ? error.message : "Database get failed", sql, error instanceof Error ? error : undefined);
-            }
+            return guarded(
+                () =>
+                    db
+                        .prepare(sql)
+                        .bind(...params)
+                        .first<T>(),
+                "Database get failed",
+                sql,
+            );
         },
 
         async execute(sql: string, params: unknown[] = []): Promise<D1Result> {
-            try {
-                const statement = db.prepare(sql);
-                return await statement.bind(...params).run();
-            } catch (error) {
-                throw new DatabaseError(error instanceof Error ? error.message : "Database execute failed", sql, error instanceof Error ? error : undefined);
-            }
+            return guarded(
+                () =>
+                    db
+                        .prepare(sql)
+                        .bind(...params)
+                        .run(),
+                "Database execute failed",
+                sql,
+            );
         },
 
-        async insert(table: string, data: Record<string, unknown>): Promise<string | number | null> {
-            validateIdentifier(table);
-
-            const keys = Object.keys(data);
-            const values = Object.values(data);
-            keys.forEach(validateIdentifier);
-
-            const placeholders = keys.map(() => "?").join(", ");
-            const sql = `INSERT INTO ${table} (${keys.join(", ")}) VALUES (${placeholders})`;
-
-            const result = await this.execute(sql, values);
+        async insert(target: string | Table, data: Record<string, unknown>): Promise<string | number | null> {
+            const { sql, params } = compileInsert(target, data);
+            const result = await this.execute(sql, params);
             return result.meta?.last_row_id ?? null;
         },
 
-        async update(table: string, data: Record<string, unknown>, where: WhereClause): Promise<number> {
-            validateIdentifier(table);
-
-            const keys = Object.keys(data);
-            const values = Object.values(data);
-            keys.forEach(validateIdentifier);
-
-            const { clause, params: whereParams } = buildWhereClause(where);
-            const setClause = keys.map((key) => `${key} = ?`).join(", ");
-            const sql = `UPDATE ${table} SET ${setClause} WHERE ${clause}`;
-
-            const result = await this.execute(sql, [...values, ...whereParams]);
+        async update(target: string | Table, data: Record<string, unknown>, where: WhereClause): Promise<number> {
+            const { sql, params } = compileUpdate(target, data, where);
+            const result = await this.execute(sql, params);
             return result.meta?.changes ?? 0;
         },
 
-        async delete(table: string, where: WhereClause): Promise<number> {
-            validateIdentifier(table);
-
-            const { clause, params: whereParams } = buildWhereClause(where);
-            const sql = `DELETE FROM ${table} WHERE ${clause}`;
-
-            const result = await this.execute(sql, whereParams);
+        async delete(target: string | Table, where: WhereClause): Promise<number> {
+            const { sql, params } = compileDelete(target, where);
+            const result = await this.execute(sql, params);
             return result.meta?.changes ?? 0;
         },
 
         async batch<T = unknown>(queries: { sql: string; params: unknown[] }[]): Promise<D1Result<T>[]> {
-            try {
-                const statements = queries.map((q) => db.prepare(q.sql).bind(...q.params));
-                return await db.batch<T>(statements);
-            } catch (error) {
-                throw new DatabaseError(
-                    error instanceof Error ? error.message : "Database batch failed",
-                    undefined,
-                    error instanceof Error ? error : undefined,
-                );
-            }
+            return guarded(() => db.batch<T>(queries.map((q) => db.prepare(q.sql).bind(...q.params))), "Database batch failed");
+        },
+
+        from(table: string | Table) {
+            return createQueryBuilder(this, tableName(table));
+        },
+
+        paginate: paginateQuery,
+
+        transaction<T>(callback: (tx: Transaction) => T | Promise<T>): Promise<T> {
+            return runTransaction(this, callback);
         },
 
         getBinding(): D1Database {
             return db;
         },
+
+        withSignal(nextSignal: AbortSignal): DatabaseService {
+            return createDatabase({ ...options, signal: nextSignal });
+        },
     };
 }
 
-export { buildWhereClause, validateIdentifier };
+export { buildWhereClause, validateIdentifier, validateColumn, compileInsert, compileUpdate, compileDelete };
@@ -0,0 +1,343 @@
+/**
+ * Migrations
+ *
+ * Ordered up/down migrations for D1, recorded with a checksum in a tracking
+ * table so edited or missing migrations are caught before anything runs.
+ */
+
+import type { DatabaseService } from "./index";
+import { validateIdentifier } from "./index";
+import { DatabaseError } from "../errors/index";
+
+export interface Migration {
+    /** Positive integer; migrations run in ascending order */
+    version: number;
+    name: string;
+    /** SQL script (split on `;`) or individual statements, e.g. createTableSQL(users) */
+    up: string | string[];
+    /** Statements that undo `up`; required to roll the migration back */
+    down?: string | string[];
+}
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    applied: boolean;
+    appliedAt?: string;
+    /** False when the applied checksum differs from the current `up` SQL */
+    checksumMatches?: boolean;
+}
+
+export interface MigrationStep {
+    version: number;
+    name: string;
+    statements: string[];
+}
+
+export interface MigrationResult {
+    direction: "up" | "down";
+    dryRun: boolean;
+    /** Steps run (or, for a dry run, that would run) in order */
+    steps: MigrationStep[];
+}
+
+export interface MigratorOptions {
+    migrations: Migration[];
+    /** Tracking table (default: "_migrations") */
+    table?: string;
+}
+
+export interface MigrateOptions {
+    /** Highest version to apply (migrate) or version to return to (rollback, 0 for none) */
+    to?: number;
+    /** Verify and plan without executing anything */
+    dryRun?: boolean;
+}
+
+export interface Migrator {
+    /** Every known migration, applied or pending, plus applied versions missing from the list */
+    status(): Promise<MigrationStatus[]>;
+    /** Throw a DatabaseError when an applied migration was edited or removed */
+    verify(): Promise<void>;
+    /** Apply pending migrations up to `to` (default: all) */
+    migrate(options?: MigrateOptions): Promise<MigrationResult>;
+    /** Undo applied migrations above `to` (default: the latest one only) */
+    rollback(options?: MigrateOptions): Promise<MigrationResult>;
+}
+
+interface AppliedRow {
+    version: number;
+    name: string;
+    checksum: string;
+    applied_at: string;
+}
+
+interface PreparedMigration {
+    version: number;
+    name: string;
+    up: string[];
+    down?: string[];
+    checksum: string;
+}
+
+const TRIGGER = /^CREATE\s+(?:TEMP\s+|TEMPORARY\s+)?TRIGGER\b/i;
+
+/**
+ * Split a SQL script into statements
+ *
+ * Semicolons inside quotes, comments and CREATE TRIGGER ... END bodies do not
+ * end a statement. Comments are dropped.
+ */
+export function splitStatements(sql: string): string[] {
+    const statements: string[] = [];
+    let current = "";
+    let quote: string | null = null;
+
+    for (let i = 0; i < sql.length; i++) {
+        const char = sql[i]!;
+        if (quote) {
+            current += char;
+            if (char === quote) quote = null;
+            continue;
+        }
+        if (char === "-" && sql[i + 1] === "-") {
+            const end = sql.indexOf("\n", i);
+            i = (end === -1 ? sql.length : end) - 1;
+            continue;
+        }
+        if (char === "/" && sql[i + 1] === "*") {
+            const end = sql.indexOf("*/", i + 2);
+            i = end === -1 ? sql.length : end + 1;
+            current += " ";
+            continue;
+        }
+        if (char === ";") {
+            const statement = current.trim();
+            if (TRIGGER.test(statement) && !/\bEND$/i.test(statement)) {
+                current += char;
+                continue;
+            }
+            if (statement) statements.push(statement);
+            current = "";
+            continue;
+        }
+        if (char === "'" || char === '"' || char === "`") quote = char;
+        if (char === "[") quote = "]";
+        current += char;
+    }
+
+    const rest = current.trim();
+    if (rest) statements.push(rest);
+    return statements;
+}
+
+const MIGRATION_FILE = /^(\d+)_([\w.-]+)\.sql$/;
+const SECTION = /^--\s*migrate:(up|down)\s*$/gim;
+
+/**
+ * Build a migration from a `NNNN_name.sql` file
+ *
+ * The file may hold `-- migrate:up` and `-- migrate:down` sections; without
+ * markers the whole file is the up migration.
+ *
+ * @example
+ * ```typescript
+ * parseMigrationFile('0002_add_role.sql', `
+ * -- migrate:up
+ * ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'member';
+ * -- migrate:down
+ * ALTER TABLE users DROP COLUMN role;
+ * `);
+ * ```
+ */
+export function parseMigrationFile(filename: string, contents: string): Migration {
+    const basename = filename.split(/[\\/]/).pop()!;
+    const match = MIGRATION_FILE.exec(basename);
+    if (!match) {
+        throw new DatabaseError(`Migration file names must look like 0001_name.sql: ${basename}`);
+    }
+
+    const sections: Partial<Record<"up" | "down", string>> = {};
+    const markers = [...contents.matchAll(SECTION)];
+    if (markers.length === 0) {
+        sections.up = contents;
+    }
+    markers.forEach((marker, index) => {
+        const direction = marker[1]!.toLowerCase() as "up" | "down";
+        if (sections[direction] !== undefined) {
+            throw new DatabaseError(`Duplicate "-- migrate:${direction}" section in ${basename}`);
+        }
+        sections[direction] = contents.slice(marker.index! + marker[0].length, markers[index + 1]?.index ?? contents.length);
+    });
+
+    return {
+        version: Number(match[1]),
+        name: match[2]!,
+        up: sections.up ?? "",
+        ...(sections.down !== undefined && { down: sections.down }),
+    };
+}
+
+function toStatements(sql: string | string[]): string[] {
+    return typeof sql === "string" ? splitStatements(sql) : sql.map((statement) => statement.trim()).filter(Boolean);
+}
+
+async function checksum(statements: string[]): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(statements.join(";\n")));
+    return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Create a migration runner
+ *
+ * Each migration runs in one D1 batch together with its tracking row, so a
+ * failing statement leaves neither the schema change nor the record behind,
+ * and a concurrent run applying the same version fails on the primary key.
+ *
+ * @example
+ * ```typescript
+ * const migrator = createMigrator(db, {
+ *   migrations: [
+ *     { version: 1, name: 'create_users', up: createTableSQL(users), down: 'DROP TABLE users' },
+ *     { version: 2, name: 'add_role', up: "ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'member'" },
+ *   ],
+ * });
+ *
+ * const plan = await migrator.migrate({ dryRun: true }); // plan.steps lists the pending SQL
+ * await migrator.migrate();
+ * await migrator.rollback({ to: 1 });
+ * ```
+ */
+export function createMigrator(database: DatabaseService, options: MigratorOptions): Migrator {
+    const table = validateIdentifier(options.table ?? "_migrations");
+    const versions = new Set<number>();
+    for (const migration of options.migrations) {
+        if (!Number.isSafeInteger(migration.version) || migration.version < 1) {
+            throw new DatabaseError(`Migration version must be a positive integer: ${migration.version}`);
+        }
+        if (versions.has(migration.version)) {
+            throw new DatabaseError(`Duplicate migration version: ${migration.version}`);
+        }
+        versions.add(migration.version);
+    }
+
+    let prepared: Promise<PreparedMigration[]> | undefined;
+    function definitions(): Promise<PreparedMigration[]> {
+        prepared ??= Promise.all(
+            [...options.migrations]
+                .sort((a, b) => a.version - b.version)
+                .map(async (migration) => {
+                    const up = toStatements(migration.up);
+                    if (up.length === 0) {
+                        throw new DatabaseError(`Migration ${migration.version} (${migration.name}) has no up statements`);
+                    }
+                    return {
+                        version: migration.version,
+                        name: migration.name,
+                        up,
+                        ...(migration.down !== undefined && { down: toStatements(migration.down) }),
+                        checksum: await checksum(up),
+                    };
+                }),
+        );
+        return prepared;
+    }
+
+    async function applied(): Promise<AppliedRow[]> {
+        try {
+            const result = await database.query<AppliedRow>(`SELECT version, name, checksum, applied_at FROM ${table} ORDER BY version`);
+            return (result.results ?? []).map((row) => ({ ...row, version: Number(row.version) })).sort((a, b) => a.version - b.version);
+        } catch (error) {
+            // Nothing has been applied before the tracking table exists
+            if (error instanceof DatabaseError && /no such table/i.test(error.message)) return [];
+            throw error;
+        }
+    }
+
+    async function verified(): Promise<{ known: PreparedMigration[]; rows: AppliedRow[] }> {
+        const [known, rows] = await Promise.all([definitions(), applied()]);
+        for (const row of rows) {
+            const migration = known.find((candidate) => candidate.version === row.version);
+            if (!migration) {
+                throw new DatabaseError(`Applied migration ${row.version} (${row.name}) is missing from the migration list`);
+            }
+            if (migration.checksum !== row.checksum) {
+                throw new DatabaseError(`Checksum mismatch for migration ${row.version} (${row.name}): it was edited after being applied`);
+            }
+        }
+        return { known, rows };
+    }
+
+    async function run(direction: "up" | "down", steps: MigrationStep[], dryRun: boolean): Promise<MigrationResult> {
+        if (dryRun || steps.length === 0) return { direction, dryRun, steps };
+
+        await database.execute(
+            `CREATE TABLE IF NOT EXISTS ${table} (version INTEGER PRIMARY KEY, name TEXT NOT NULL, checksum TEXT NOT NULL, applied_at TEXT NOT NULL)`,
+        );
+        const known = await definitions();
+        for (const step of steps) {
+            const record =
+                direction === "up"
+                    ? {
+                          sql: `INSERT INTO ${table} (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)`,
+                          params: [step.version, step.name, known.find((m) => m.version === step.version)!.checksum, new Date().toISOString()],
+                      }
+                    : { sql: `DELETE FROM ${table} WHERE version = ?`, params: [step.version] };
+            await database.batch([...step.statements.map((sql) => ({ sql, params: [] })), record]);
+        }
+        return { direction, dryRun, steps };
+    }
+
+    return {
+        async status() {
+            const [known, rows] = await Promise.all([definitions(), applied()]);
+            const statuses: MigrationStatus[] = known.map((migration) => {
+                const row = rows.find((candidate) => candidate.version === migration.version);
+                return row
+                    ? {
+                          version: migration.version,
+                          name: migration.name,
+                          applied: true,
+                          appliedAt: row.applied_at,
+                          checksumMatches: row.checksum === migration.checksum,
+                      }
+                    : { version: migration.version, name: migration.name, applied: false };
+            });
+            for (const row of rows) {
+                if (!versions.has(row.version)) {
+                    statuses.push({ version: row.version, name: row.name, applied: true, appliedAt: row.applied_at, checksumMatches: false });
+                }
+            }
+            return statuses.sort((a, b) => a.version - b.version);
+        },
+
+        async verify() {
+            await verified();
+        },
+
+        async migrate({ to = Infinity, dryRun = false } = {}) {
+            const { known, rows } = await verified();
+            const done = new Set(rows.map((row) => row.version));
+            const steps = known
+                .filter((migration) => migration.version <= to && !done.has(migration.version))
+                .map(({ version, name, up }) => ({ version, name, statements: up }));
+            return run("up", steps, dryRun);
+        },
+
+        async rollback({ to, dryRun = false } = {}) {
+            const { known, rows } = await verified();
+            const target = to ?? rows[rows.length - 2]?.version ?? 0;
+            const steps = rows
+                .filter((row) => row.version > target)
+                .reverse()
+                .map((row) => {
+                    const migration = known.find((candidate) => candidate.version === row.version)!;
+                    if (!migration.down || migration.down.length === 0) {
+                        throw new DatabaseError(`Migration ${migration.version} (${migration.name}) has no down statements and cannot be rolled back`);
+                    }
+                    return { version: migration.version, name: migration.name, statements: migration.down };
+                });
+            return run("down", steps, dryRun);
+        },
+    };
+}
@@ -0,0 +1,245 @@
+/**
+ * Pagination
+ *
+ * Keyset (cursor) and offset pagination over query builders, a response
+ * helper emitting `Link` headers, and query-string schemas for createValidator.
+ */
+
+import type { QueryBuilder, OrderDirection, WhereFilter } from "./query-builder";
+import type { WhereClause } from "./index";
+import { bytesToBase64Url, base64UrlToBytes, hmacSign, hmacVerify } from "../auth/crypto";
+import { jsonResponse, type ResponseHeaders } from "../core/response";
+import { ConfigError, DatabaseError, ValidationError } from "../errors/index";
+import { v, type Schema } from "../validation/index";
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_MAX_LIMIT = 100;
+
+/** Sort columns in priority order, e.g. `{ created_at: "desc", id: "desc" }` */
+export type PaginationOrder<Row = Record<string, unknown>> = { [K in keyof Row & string]?: OrderDirection } & { [column: string]: OrderDirection | undefined };
+
+interface PageSize {
+    /** Rows per page (default: 20), capped at `maxLimit` */
+    limit?: number;
+    /** Default: 100 */
+    maxLimit?: number;
+}
+
+export interface CursorPaginationOptions<Row = Record<string, unknown>> extends PageSize {
+    /** `nextCursor` from the previous page; omit for the first page */
+    cursor?: string | null;
+    /** Keyset; the last column must be unique (e.g. `id`) and none may be NULL */
+    orderBy: PaginationOrder<Row>;
+    /** HMAC secret for cursors (default: DatabaseOptions.cursorSecret) */
+    secret?: string;
+}
+
+export interface OffsetPaginationOptions<Row = Record<string, unknown>> extends PageSize {
+    /** 1-based page number */
+    page: number;
+    orderBy?: PaginationOrder<Row>;
+}
+
+export interface CursorPage<Row> {
+    data: Row[];
+    /** Cursor for the following page, or null on the last page */
+    nextCursor: string | null;
+    limit: number;
+}
+
+export interface OffsetPage<Row> {
+    data: Row[];
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+}
+
+function pageSize({ limit, maxLimit = DEFAULT_MAX_LIMIT }: PageSize): number {
+    if (limit === undefined) return Math.min(DEFAULT_LIMIT, maxLimit);
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new ValidationError("limit must be a positive integer", "limit");
+    }
+    return Math.min(limit, maxLimit);
+}
+
+function orderEntries(orderBy: Record<string, OrderDirection | undefined> | undefined): Array<[string, OrderDirection]> {
+    return Object.entries(orderBy ?? {}).filter((entry): entry is [string, OrderDirection] => entry[1] !== undefined);
+}
+
+/** Cursors are bound to their sort key so one cannot be replayed against another ordering */
+function keysetId(order: Array<[string, OrderDirection]>): string {
+    return order.map(([column, direction]) => `${column}:${direction}`).join(",");
+}
+
+async function encodeCursor(secret: string, key: string, values: unknown[]): Promise<string> {
+    const payload = bytesToBase64Url(new TextEncoder().encode(JSON.stringify({ k: key, v: values })));
+    return `${payload}.${await hmacSign(secret, payload)}`;
+}
+
+async function decodeCursor(secret: string, key: string, cursor: string, columns: number): Promise<unknown[]> {
+    const invalid = () => new ValidationError("Invalid pagination cursor", "cursor");
+    const [payload, signature, extra] = cursor.split(".");
+    if (!payload || !signature || extra !== undefined) throw invalid();
+
+    try {
+        if (!(await hmacVerify(secret, payload, signature))) throw invalid();
+        const decoded = JSON.parse(new TextDecoder().decode(base64UrlToBytes(payload))) as { k?: unknown; v?: unknown };
+        if (decoded.k !== key || !Array.isArray(decoded.v) || decoded.v.length !== columns) throw invalid();
+        return decoded.v;
+    } catch {
+        throw invalid();
+    }
+}
+
+/**
+ * `(a > x) OR (a = x AND b > y) ...` for the rows after the cursor
+ */
+function afterCursor(order: Array<[string, OrderDirection]>, values: unknown[]): WhereClause {
+    const alternatives = order.map(([column, direction], index) => {
+        const clause: WhereClause = {};
+        order.slice(0, index).forEach(([previous], i) => (clause[previous] = values[i]));
+        clause[column] = { op: direction === "desc" ? "lt" : "gt", value: values[index] };
+        return clause;
+    });
+    return alternatives.length === 1 ? alternatives[0]! : { $or: alternatives };
+}
+
+function cursorValues(row: unknown, order: Array<[string, OrderDirection]>): unknown[] {
+    return order.map(([column]) => {
+        const value = (row as Record<string, unknown>)[column.split(".").pop()!];
+        if (value === undefined || value === null) {
+            throw new DatabaseError(
+                `Cursor column ${column} is ${value === null ? "NULL" : "not selected"}; keyset pagination needs non-null sort columns in the result`,
+            );
+        }
+        return value;
+    });
+}
+
+/**
+ * Paginate a query builder
+ *
+ * With `page`, returns an offset page with `total` from a COUNT query.
+ * Otherwise pages by keyset: rows after the signed `cursor` in `orderBy` order,
+ * which stays stable and fast as rows are inserted. Invalid or tampered
+ * cursors and bad `limit`/`page` values throw a ValidationError (400).
+ *
+ * @example
+ * ```typescript
+ * const page = await paginate(db.from<Post>('posts').where({ published: true }), {
+ *   cursor: query.cursor,
+ *   limit: query.limit,
+ *   orderBy: { created_at: 'desc', id: 'desc' },
+ *   secret: env.CURSOR_SECRET,
+ * });
+ * ```
+ */
+export function paginate<Row>(query: QueryBuilder<Row>, options: OffsetPaginationOptions<Row>): Promise<OffsetPage<Row>>;
+export function paginate<Row>(query: QueryBuilder<Row>, options: CursorPaginationOptions<Row>): Promise<CursorPage<Row>>;
+export async function paginate<Row>(
+    query: QueryBuilder<Row>,
+    options: OffsetPaginationOptions<Row> | CursorPaginationOptions<Row>,
+): Promise<OffsetPage<Row> | CursorPage<Row>> {
+    const limit = pageSize(options);
+    const order = orderEntries(options.orderBy);
+    const ordered = order.reduce((builder, [column, direction]) => builder.orderBy(column, direction), query);
+
+    if ("page" in options) {
+        const { page } = options;
+        if (!Number.isInteger(page) || page < 1) {
+            throw new ValidationError("page must be a positive integer", "page");
+        }
+        const [data, total] = await Promise.all([
+            ordered
+                .limit(limit)
+                .offset((page - 1) * limit)
+                .all(),
+            query.count(),
+        ]);
+        return { data, page, limit, total, totalPages: Math.ceil(total / limit) };
+    }
+
+    const { secret } = options;
+    if (!secret) {
+        throw new ConfigError("A cursor secret is required for cursor pagination", "cursorSecret");
+    }
+    if (order.length === 0) {
+        throw new DatabaseError("Cursor pagination needs an orderBy keyset");
+    }
+
+    const key = keysetId(order);
+    const filtered = options.cursor
+        ? ordered.where(afterCursor(order, await decodeCursor(secret, key, options.cursor, order.length)) as WhereFilter<Row>)
+        : ordered;
+    const rows = await filtered.limit(limit + 1).all();
+    const data = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? await encodeCursor(secret, key, cursorValues(data[data.length - 1], order)) : null;
+    return { data, nextCursor, limit };
+}
+
+/**
+ * JSON page with RFC 8288 `Link` headers
+ *
+ * Cursor pages respond with `{ data, nextCursor }` and a `next` link. Offset
+ * pages respond with `{ data, page, limit, total, totalPages }`, plus
+ * `X-Total-Count` and `first`, `prev`, `next` and `last` links. Links reuse
+ * `url` with its `cursor`/`page` and `limit` parameters replaced.
+ *
+ * @example
+ * ```typescript
+ * return paginatedResponse(page, ctx.url);
+ * ```
+ */
+export function paginatedResponse<Row>(page: CursorPage<Row> | OffsetPage<Row>, url: URL | string, headers?: ResponseHeaders): Response {
+    const link = (params: Record<string, string>, rel: string): string => {
+        const target = new URL(url);
+        for (const [name, value] of Object.entries(params)) target.searchParams.set(name, value);
+        return `<${target.toString()}>; rel="${rel}"`;
+    };
+    const limit = String(page.limit);
+    const responseHeaders = new Headers(headers);
+    const links: string[] = [];
+
+    if ("nextCursor" in page) {
+        if (page.nextCursor) links.push(link({ cursor: page.nextCursor, limit }, "next"));
+        if (links.length > 0) responseHeaders.set("Link", links.join(", "));
+        return jsonResponse({ data: page.data, nextCursor: page.nextCursor }, 200, responseHeaders);
+    }
+
+    const pageLink = (number: number, rel: string) => links.push(link({ page: String(number), limit }, rel));
+    if (page.totalPages > 0) pageLink(1, "first");
+    if (page.page > 1 && page.totalPages > 0) pageLink(Math.min(page.page - 1, page.totalPages), "prev");
+    if (page.page < page.totalPages) pageLink(page.page + 1, "next");
+    if (page.totalPages > 0) pageLink(page.totalPages, "last");
+    if (links.length > 0) responseHeaders.set("Link", links.join(", "));
+    responseHeaders.set("X-Total-Count", String(page.total));
+
+    const { data, page: number, limit: size, total, totalPages } = page;
+    return jsonResponse({ data, page: number, limit: size, total, totalPages }, 200, responseHeaders);
+}
+
+/**
+ * Query-string fields for createValidator
+ *
+ * @example
+ * ```typescript
+ * const listQuery = v.object({ ...paginationQuery(), status: v.string().optional() });
+ * app.get('/posts', createValidator({ query: listQuery, coerceQuery: true }), handler);
+ * ```
+ */
+export function paginationQuery(options: { maxLimit?: number } = {}): {
+    cursor: Schema<string | undefined>;
+    limit: Schema<number | undefined>;
+    page: Schema<number | undefined>;
+} {
+    return {
+        cursor: v.string().maxLength(1024).optional(),
+        limit: v
+            .number()
+            .min(1)
+            .max(options.maxLimit ?? DEFAULT_MAX_LIMIT)
+            .optional(),
+        page: v.number().min(1).optional(),
+    };
+}
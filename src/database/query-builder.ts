@@ -0,0 +1,215 @@
+/**
+ * Query Builder
+ *
+ * Chainable SELECT builder behind `db.from()`. Every table, column and alias
+ * goes through validateIdentifier() and every value is bound as a parameter.
+ */
+
+import type { D1Result } from "./types";
+import type { WhereClause, WhereCondition } from "./index";
+import { buildWhereClause, validateColumn, validateIdentifier } from "./index";
+import { DatabaseError } from "../errors/index";
+
+/**
+ * Where filter with column-name completion for the row type
+ *
+ * Keys are row columns, or `table.column` for joined tables, compared with `=`
+ * (`IS NULL` for null) or a WhereCondition; `$or` holds alternatives that are
+ * each ANDed internally.
+ */
+export type WhereFilter<Row = Record<string, unknown>> = {
+    [K in keyof Row & string]?: Row[K] | null | WhereCondition;
+} & {
+    $or?: WhereFilter<Row>[];
+    [column: `${string}.${string}`]: unknown;
+};
+
+export type OrderDirection = "asc" | "desc";
+export type JoinType = "inner" | "left";
+
+/**
+ * Compiled statement
+ */
+export interface CompiledQuery {
+    sql: string;
+    params: unknown[];
+}
+
+/**
+ * Immutable SELECT builder; each call returns a new builder
+ */
+export interface QueryBuilder<Row = Record<string, unknown>> {
+    /** Columns to return (default `*`); accepts `table.column`, `table.*` and `column AS alias` */
+    select<K extends keyof Row & string>(...columns: K[]): QueryBuilder<Pick<Row, K>>;
+    select<T = Record<string, unknown>>(...columns: string[]): QueryBuilder<T>;
+    /** Add conditions; multiple where() calls are combined with AND */
+    where(filter: WhereFilter<Row>): QueryBuilder<Row>;
+    /** Join another table on `left = right`, e.g. `join("teams", "teams.id", "users.team_id")` */
+    join(table: string, left: string, right: string, type?: JoinType): QueryBuilder<Row>;
+    leftJoin(table: string, left: string, right: string): QueryBuilder<Row>;
+    /** Sort by a column; call again for secondary sort keys */
+    orderBy(column: (keyof Row & string) | string, direction?: OrderDirection): QueryBuilder<Row>;
+    limit(count: number): QueryBuilder<Row>;
+    offset(count: number): QueryBuilder<Row>;
+    /** Parameterized SQL for this query */
+    toSQL(): CompiledQuery;
+    /** Run the query and return all rows */
+    all(): Promise<Row[]>;
+    /** Run the query with LIMIT 1 and return the row, or null */
+    first(): Promise<Row | null>;
+    /** Count matching rows, ignoring select, order, limit and offset */
+    count(): Promise<number>;
+}
+
+/**
+ * Minimal executor the builder runs against (a DatabaseService satisfies it)
+ */
+export interface QueryExecutor {
+    query<T = unknown>(sql: string, params?: unknown[]): Promise<D1Result<T>>;
+    get<T = unknown>(sql: string, params?: unknown[]): Promise<T | null>;
+}
+
+interface QueryState {
+    table: string;
+    columns: string[];
+    joins: string[];
+    where: WhereClause[];
+    orderBy: string[];
+    limit?: number;
+    offset?: number;
+}
+
+const ALIASED = /^(.+?)\s+as\s+(.+)$/i;
+
+/**
+ * Validate a selected column: `column`, `table.column` or `table.*`
+ */
+function validateSelected(name: string): string {
+    return name.endsWith(".*") ? `${validateIdentifier(name.slice(0, -2))}.*` : validateColumn(name);
+}
+
+/**
+ * Validate an optionally aliased reference (`users AS u`, `teams.name AS team`)
+ */
+function validateReference(reference: string, validate: (name: string) => string): string {
+    const trimmed = reference.trim();
+    if (trimmed === "*") return "*";
+    const aliased = ALIASED.exec(trimmed);
+    if (!aliased) return validate(trimmed);
+    return `${validate(aliased[1]!)} AS ${validateIdentifier(aliased[2]!.trim())}`;
+}
+
+function validateCount(value: number, name: string): number {
+    if (!Number.isInteger(value) || value < 0) {
+        throw new DatabaseError(`${name} must be a non-negative integer`);
+    }
+    return value;
+}
+
+function compileWhere(clauses: WhereClause[]): CompiledQuery {
+    const params: unknown[] = [];
+    const parts = clauses.map((clause) => {
+        const compiled = buildWhereClause(clause);
+        params.push(...compiled.params);
+        return clauses.length > 1 ? `(${compiled.clause})` : compiled.clause;
+    });
+    return { sql: parts.length > 0 ? ` WHERE ${parts.join(" AND ")}` : "", params };
+}
+
+/**
+ * Create a query builder for `table` that runs through `executor`
+ */
+export function createQueryBuilder<Row = Record<string, unknown>>(executor: QueryExecutor, table: string): QueryBuilder<Row> {
+    return builder<Row>(executor, {
+        table: validateReference(table, validateIdentifier),
+        columns: [],
+        joins: [],
+        where: [],
+        orderBy: [],
+    });
+}
+
+function builder<Row>(executor: QueryExecutor, state: QueryState): QueryBuilder<Row> {
+    const next = <T = Row>(changes: Partial<QueryState>): QueryBuilder<T> => builder<T>(executor, { ...state, ...changes });
+
+    function compile(columns: string, withPaging: boolean): CompiledQuery {
+        const where = compileWhere(state.where);
+        const params = [...where.params];
+        let sql = `SELECT ${columns} FROM ${state.table}${state.joins.join("")}${where.sql}`;
+
+        if (withPaging) {
+            if (state.orderBy.length > 0) sql += ` ORDER BY ${state.orderBy.join(", ")}`;
+            if (state.limit !== undefined || state.offset !== undefined) {
+                sql += " LIMIT ?";
+                params.push(state.limit ?? -1);
+            }
+            if (state.offset !== undefined) {
+                sql += " OFFSET ?";
+                params.push(state.offset);
+            }
+        }
+
+        return { sql, params };
+    }
+
+    const query: QueryBuilder<Row> = {
+        select<T>(...columns: string[]): QueryBuilder<T> {
+            return next<T>({ columns: columns.map((column) => validateReference(column, validateSelected)) });
+        },
+
+        where(filter) {
+            return next({ where: [...state.where, filter as WhereClause] });
+        },
+
+        join(table, left, right, type = "inner") {
+            if (type !== "inner" && type !== "left") {
+                throw new DatabaseError(`Unsupported join type: ${String(type)}`);
+            }
+            const keyword = type === "left" ? "LEFT JOIN" : "INNER JOIN";
+            const clause = ` ${keyword} ${validateReference(table, validateIdentifier)} ON ${validateColumn(left)} = ${validateColumn(right)}`;
+            return next({ joins: [...state.joins, clause] });
+        },
+
+        leftJoin(table, left, right) {
+            return query.join(table, left, right, "left");
+        },
+
+        orderBy(column, direction = "asc") {
+            if (direction !== "asc" && direction !== "desc") {
+                throw new DatabaseError(`Invalid sort direction: ${String(direction)}`);
+            }
+            return next({ orderBy: [...state.orderBy, `${validateColumn(column)} ${direction.toUpperCase()}`] });
+        },
+
+        limit(count) {
+            return next({ limit: validateCount(count, "limit") });
+        },
+
+        offset(count) {
+            return next({ offset: validateCount(count, "offset") });
+        },
+
+        toSQL() {
+            return compile(state.columns.length > 0 ? state.columns.join(", ") : "*", true);
+        },
+
+        async all() {
+            const { sql, params } = query.toSQL();
+            const result = await executor.query<Row>(sql, params);
+            return result.results ?? [];
+        },
+
+        async first() {
+            const { sql, params } = query.limit(1).toSQL();
+            return executor.get<Row>(sql, params);
+        },
+
+        async count() {
+            const { sql, params } = compile("COUNT(*) AS count", false);
+            const row = await executor.get<{ count: number }>(sql, params);
+            return row?.count ?? 0;
+        },
+    };
+
+    return query;
+}
@@ -0,0 +1,228 @@
+/**
+ * Schema Definitions
+ *
+ * defineTable() describes a D1 table once: row, insert and update types are
+ * inferred from its columns, and createTableSQL() generates the DDL.
+ */
+
+import { DatabaseError } from "../errors/index";
+import { validateIdentifier } from "./index";
+
+export type ColumnKind = "integer" | "real" | "text" | "blob";
+
+type SqlDefault = string | number | boolean | null | { sql: string };
+
+export interface ColumnConfig {
+    kind: ColumnKind;
+    notNull: boolean;
+    primaryKey: boolean;
+    autoIncrement: boolean;
+    unique: boolean;
+    default?: SqlDefault;
+    references?: { table: string; column: string; onDelete?: ForeignKeyAction; onUpdate?: ForeignKeyAction };
+}
+
+export type ForeignKeyAction = "cascade" | "restrict" | "set null" | "set default" | "no action";
+
+/**
+ * Column definition
+ *
+ * `T` is the value type, `Nullable` whether rows may hold NULL and `HasDefault`
+ * whether inserts may omit the column. An integer primary key is a rowid alias,
+ * so it is assigned by D1 and optional on insert.
+ */
+export class Column<T = unknown, Nullable extends boolean = true, HasDefault extends boolean = false, Kind extends ColumnKind = ColumnKind> {
+    declare readonly _type: T;
+    declare readonly _nullable: Nullable;
+    declare readonly _hasDefault: HasDefault;
+
+    constructor(readonly config: ColumnConfig & { kind: Kind }) {}
+
+    private with<N extends boolean = Nullable, D extends boolean = HasDefault, V = T>(changes: Partial<Omit<ColumnConfig, "kind">>): Column<V, N, D, Kind> {
+        return new Column<V, N, D, Kind>({ ...this.config, ...changes });
+    }
+
+    /** NOT NULL */
+    notNull(): Column<T, false, HasDefault, Kind> {
+        return this.with<false>({ notNull: true });
+    }
+
+    /** PRIMARY KEY (implies NOT NULL); `autoIncrement` never reuses rowids of deleted rows */
+    primaryKey(options: { autoIncrement?: boolean } = {}): Column<T, false, Kind extends "integer" ? true : HasDefault, Kind> {
+        if (options.autoIncrement && this.config.kind !== "integer") {
+            throw new DatabaseError("AUTOINCREMENT is only allowed on integer primary keys");
+        }
+        return this.with<false, Kind extends "integer" ? true : HasDefault>({ notNull: true, primaryKey: true, autoIncrement: options.autoIncrement ?? false });
+    }
+
+    /** UNIQUE */
+    unique(): Column<T, Nullable, HasDefault, Kind> {
+        return this.with({ unique: true });
+    }
+
+    /** DEFAULT value used when an insert omits the column */
+    default(value: T): Column<T, Nullable, true, Kind> {
+        return this.with<Nullable, true>({ default: value as SqlDefault });
+    }
+
+    /** DEFAULT CURRENT_TIMESTAMP ("YYYY-MM-DD HH:MM:SS" in UTC) */
+    defaultNow(): Column<T, Nullable, true, Kind> {
+        return this.with<Nullable, true>({ default: { sql: "CURRENT_TIMESTAMP" } });
+    }
+
+    /** REFERENCES table(column) */
+    references(
+        table: string,
+        column: string,
+        actions: { onDelete?: ForeignKeyAction; onUpdate?: ForeignKeyAction } = {},
+    ): Column<T, Nullable, HasDefault, Kind> {
+        return this.with({ references: { table, column, ...actions } });
+    }
+
+    /** Narrow the TypeScript value type, e.g. `column.text().type<"admin" | "member">()` */
+    type<V extends T>(): Column<V, Nullable, HasDefault, Kind> {
+        return this.with<Nullable, HasDefault, V>({});
+    }
+}
+
+function createColumn<T, Kind extends ColumnKind>(kind: Kind): Column<T, true, false, Kind> {
+    return new Column<T, true, false, Kind>({ kind, notNull: false, primaryKey: false, autoIncrement: false, unique: false });
+}
+
+/**
+ * Column builder namespace
+ */
+export const column = {
+    /** INTEGER; booleans are stored as 0/1 and read back as numbers */
+    integer: () => createColumn<number, "integer">("integer"),
+    real: () => createColumn<number, "real">("real"),
+    text: () => createColumn<string, "text">("text"),
+    blob: () => createColumn<ArrayBuffer, "blob">("blob"),
+};
+
+export type AnyColumn = Column<unknown, boolean, boolean, ColumnKind>;
+export type ColumnMap = Record<string, AnyColumn>;
+
+export interface TableIndex<ColumnName extends string = string> {
+    /** Default: `idx_<table>_<columns>` */
+    name?: string;
+    columns: ColumnName[];
+    unique?: boolean;
+}
+
+export interface TableOptions<ColumnName extends string = string> {
+    /** Composite primary key (instead of a column-level primaryKey()) */
+    primaryKey?: ColumnName[];
+    indexes?: TableIndex<ColumnName>[];
+}
+
+/**
+ * Table definition returned by defineTable()
+ */
+export interface Table<Name extends string = string, Columns extends ColumnMap = ColumnMap> {
+    readonly name: Name;
+    readonly columns: Columns;
+    readonly options: TableOptions;
+}
+
+type ColumnValue<C> = C extends Column<infer T, infer Nullable, boolean, ColumnKind> ? (Nullable extends true ? T | null : T) : never;
+type OptionalOnInsert<C> = C extends Column<unknown, infer Nullable, infer HasDefault, ColumnKind> ? (Nullable extends true ? true : HasDefault) : never;
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/** Row returned by selects */
+export type InferRow<T extends Table> = Simplify<{ [K in keyof T["columns"]]: ColumnValue<T["columns"][K]> }>;
+
+/** Values accepted by insert: nullable and defaulted columns are optional */
+export type InferInsert<T extends Table> = Simplify<
+    { [K in keyof T["columns"] as OptionalOnInsert<T["columns"][K]> extends true ? never : K]: ColumnValue<T["columns"][K]> } & {
+        [K in keyof T["columns"] as OptionalOnInsert<T["columns"][K]> extends true ? K : never]?: ColumnValue<T["columns"][K]>;
+    }
+>;
+
+/** Values accepted by update: any subset of the columns */
+export type InferUpdate<T extends Table> = Partial<InferRow<T>>;
+
+/**
+ * Define a table and its columns
+ *
+ * @example
+ * ```typescript
+ * const users = defineTable('users', {
+ *   id: column.integer().primaryKey(),
+ *   email: column.text().notNull().unique(),
+ *   role: column.text().type<'admin' | 'member'>().notNull().default('member'),
+ *   created_at: column.text().notNull().defaultNow(),
+ * });
+ *
+ * type User = InferRow<typeof users>;
+ * await db.insert(users, { email: 'ada@example.com' }); // role, id and created_at are optional
+ * ```
+ */
+export function defineTable<Name extends string, Columns extends ColumnMap>(
+    name: Name,
+    columns: Columns,
+    options: TableOptions<keyof Columns & string> = {},
+): Table<Name, Columns> {
+    validateIdentifier(name);
+    Object.keys(columns).forEach(validateIdentifier);
+
+    const inlinePrimaryKeys = Object.values(columns).filter((col) => col.config.primaryKey).length;
+    if (inlinePrimaryKeys > 1 || (inlinePrimaryKeys > 0 && options.primaryKey)) {
+        throw new DatabaseError(`Table ${name} declares more than one primary key; use the primaryKey option for composite keys`);
+    }
+
+    return { name, columns, options };
+}
+
+function sqlLiteral(value: SqlDefault): string {
+    if (value === null) return "NULL";
+    if (typeof value === "object") return `(${value.sql})`;
+    if (typeof value === "boolean") return value ? "1" : "0";
+    if (typeof value === "number") {
+        if (!Number.isFinite(value)) throw new DatabaseError(`Invalid default value: ${value}`);
+        return String(value);
+    }
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+function columnSQL(name: string, { config }: AnyColumn, inCompositeKey: boolean): string {
+    const parts = [name, config.kind.toUpperCase()];
+    if (config.primaryKey) parts.push(config.autoIncrement ? "PRIMARY KEY AUTOINCREMENT" : "PRIMARY KEY");
+    // Only an INTEGER PRIMARY KEY (a rowid alias) rejects NULL on its own; SQLite allows NULL in other keys
+    const rowid = config.primaryKey && config.kind === "integer";
+    if ((config.notNull || inCompositeKey) && !rowid) parts.push("NOT NULL");
+    if (config.unique) parts.push("UNIQUE");
+    if (config.default !== undefined) parts.push(`DEFAULT ${sqlLiteral(config.default)}`);
+    if (config.references) {
+        const { table, column: target, onDelete, onUpdate } = config.references;
+        parts.push(`REFERENCES ${validateIdentifier(table)}(${validateIdentifier(target)})`);
+        if (onDelete) parts.push(`ON DELETE ${onDelete.toUpperCase()}`);
+        if (onUpdate) parts.push(`ON UPDATE ${onUpdate.toUpperCase()}`);
+    }
+    return parts.join(" ");
+}
+
+/**
+ * CREATE TABLE and CREATE INDEX statements for a table definition
+ *
+ * @example
+ * ```typescript
+ * await db.batch(createTableSQL(users).map((sql) => ({ sql, params: [] })));
+ * ```
+ */
+export function createTableSQL(table: Table, options: { ifNotExists?: boolean } = {}): string[] {
+    const ifNotExists = options.ifNotExists === false ? "" : "IF NOT EXISTS ";
+    const keyColumns = new Set(table.options.primaryKey ?? []);
+    const definitions = Object.entries(table.columns).map(([name, col]) => columnSQL(name, col, keyColumns.has(name)));
+    if (table.options.primaryKey) {
+        definitions.push(`PRIMARY KEY (${table.options.primaryKey.map(validateIdentifier).join(", ")})`);
+    }
+
+    const statements = [`CREATE TABLE ${ifNotExists}${table.name} (${definitions.join(", ")})`];
+    for (const index of table.options.indexes ?? []) {
+        const columns = index.columns.map(validateIdentifier);
+        const name = validateIdentifier(index.name ?? `idx_${table.name}_${columns.join("_")}`);
+        statements.push(`CREATE ${index.unique ? "UNIQUE " : ""}INDEX ${ifNotExists}${name} ON ${table.name} (${columns.join(", ")})`);
+    }
+    return statements;
+}
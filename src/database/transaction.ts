@@ -0,0 +1,164 @@
+/**
+ * Transactions
+ *
+ * D1 has no interactive transactions: a batch is the only atomic unit. A
+ * transaction therefore queues statements while its callback runs and sends
+ * them as one batch afterwards. Results, including RETURNING rows, become
+ * readable on each statement handle once the batch has committed.
+ */
+
+import type { D1Result } from "./types";
+import type { DatabaseService, Returning, WhereClause } from "./index";
+import type { WhereFilter } from "./query-builder";
+import type { InferInsert, InferRow, InferUpdate, Table } from "./schema";
+import { compileDelete, compileInsert, compileUpdate } from "./index";
+import { DatabaseError } from "../errors/index";
+
+export interface ReturningOptions {
+    /** Add `RETURNING *` or `RETURNING col, ...` so the written rows can be read after commit */
+    returning?: Returning;
+}
+
+/**
+ * Handle for a queued statement
+ *
+ * Reading `result` or `row` before the transaction commits throws a
+ * DatabaseError: the statement has not run yet.
+ */
+export interface TransactionStatement<T = unknown> {
+    readonly sql: string;
+    readonly params: unknown[];
+    /** D1 result, available after commit */
+    readonly result: D1Result<T>;
+    /** First RETURNING row after commit, or null */
+    readonly row: T | null;
+}
+
+export interface Transaction {
+    execute<T = unknown>(sql: string, params?: unknown[]): TransactionStatement<T>;
+    insert<T extends Table>(table: T, data: InferInsert<T>, options?: ReturningOptions): TransactionStatement<InferRow<T>>;
+    insert<Row = Record<string, unknown>>(table: string, data: Record<string, unknown>, options?: ReturningOptions): TransactionStatement<Row>;
+    update<T extends Table>(table: T, data: InferUpdate<T>, where: WhereFilter<InferRow<T>>, options?: ReturningOptions): TransactionStatement<InferRow<T>>;
+    update<Row = Record<string, unknown>>(
+        table: string,
+        data: Record<string, unknown>,
+        where: WhereClause,
+        options?: ReturningOptions,
+    ): TransactionStatement<Row>;
+    delete<T extends Table>(table: T, where: WhereFilter<InferRow<T>>, options?: ReturningOptions): TransactionStatement<InferRow<T>>;
+    delete<Row = Record<string, unknown>>(table: string, where: WhereClause, options?: ReturningOptions): TransactionStatement<Row>;
+    /**
+     * Emulated savepoint: statements queued by `callback` are dropped if it
+     * throws (the error is rethrown), while earlier statements stay queued
+     */
+    savepoint<T>(callback: (tx: Transaction) => T | Promise<T>): Promise<T>;
+}
+
+interface QueuedStatement {
+    sql: string;
+    params: unknown[];
+    status: "queued" | "committed" | "discarded" | "failed";
+    result?: D1Result;
+}
+
+function settled(statement: QueuedStatement): D1Result {
+    switch (statement.status) {
+        case "committed":
+            return statement.result!;
+        case "queued":
+            throw new DatabaseError(
+                "Transaction results are only available after commit: D1 runs the whole transaction as one batch, so statements inside it cannot read each other's results",
+                statement.sql,
+            );
+        case "discarded":
+            throw new DatabaseError("Statement was rolled back and never ran", statement.sql);
+        default:
+            throw new DatabaseError("Transaction failed to commit; the statement did not run", statement.sql);
+    }
+}
+
+function handle<T>(statement: QueuedStatement): TransactionStatement<T> {
+    return {
+        sql: statement.sql,
+        params: statement.params,
+        get result() {
+            return settled(statement) as D1Result<T>;
+        },
+        get row() {
+            return (settled(statement).results?.[0] as T | undefined) ?? null;
+        },
+    };
+}
+
+/**
+ * Run `callback` against a statement queue and commit the queue as one batch
+ */
+export async function runTransaction<T>(database: Pick<DatabaseService, "batch">, callback: (tx: Transaction) => T | Promise<T>): Promise<T> {
+    const queue: QueuedStatement[] = [];
+    let open = true;
+
+    function enqueue<R>({ sql, params }: { sql: string; params: unknown[] }): TransactionStatement<R> {
+        if (!open) {
+            throw new DatabaseError("Transaction has already finished; queue statements before its callback resolves", sql);
+        }
+        const statement: QueuedStatement = { sql, params, status: "queued" };
+        queue.push(statement);
+        return handle<R>(statement);
+    }
+
+    function discard(from: number, status: "discarded" | "failed"): void {
+        for (const statement of queue.splice(from)) statement.status = status;
+    }
+
+    const tx: Transaction = {
+        execute(sql: string, params: unknown[] = []) {
+            return enqueue({ sql, params });
+        },
+
+        insert<R>(table: string | Table, data: Record<string, unknown>, options: ReturningOptions = {}): TransactionStatement<R> {
+            return enqueue<R>(compileInsert(table, data, options.returning));
+        },
+
+        update<R>(table: string | Table, data: Record<string, unknown>, where: WhereClause, options: ReturningOptions = {}): TransactionStatement<R> {
+            return enqueue<R>(compileUpdate(table, data, where, options.returning));
+        },
+
+        delete<R>(table: string | Table, where: WhereClause, options: ReturningOptions = {}): TransactionStatement<R> {
+            return enqueue<R>(compileDelete(table, where, options.returning));
+        },
+
+        async savepoint(inner) {
+            const mark = queue.length;
+            try {
+                return await inner(tx);
+            } catch (error) {
+                discard(mark, "discarded");
+                throw error;
+            }
+        },
+    };
+
+    let value: T;
+    try {
+        value = await callback(tx);
+    } catch (error) {
+        open = false;
+        discard(0, "discarded");
+        throw error;
+    }
+    open = false;
+    if (queue.length === 0) return value;
+
+    const statements = [...queue];
+    try {
+        const results = await database.batch(statements.map(({ sql, params }) => ({ sql, params })));
+        statements.forEach((statement, index) => {
+            statement.status = "committed";
+            statement.result = results[index];
+        });
+    } catch (error) {
+        discard(0, "failed");
+        throw error;
+    }
+    return value;
+}
@@ -21,4 +21,8 @@ import type { D1Database } from "@cloudflare/workers-types";
 export interface DatabaseOptions {
     /** Official D1 database binding from the Worker env */
     binding: D1Database;
+    /** Abort signal (e.g. `ctx.signal`); pending calls reject with its reason once it aborts */
+    signal?: AbortSignal;
+    /** HMAC secret signing `paginate()` cursors */
+    cursorSecret?: string;
 }
@@ -6,6 +6,7 @@
  */
 
 import type { EmailAddress as CfEmailAddress, EmailMessageBuilder, SendEmail } from "@cloudflare/workers-types";
+import { traceHeaders, type TraceContext } from "../core/trace";
 
 export type { SendEmail, EmailMessageBuilder, EmailSendResult } from "@cloudflare/workers-types";
 
@@ -38,6 +39,8 @@ export interface MailerOptions {
     from: EmailAddress;
     /** Cloudflare Email Service binding (env.EMAIL / send_email) */
     binding?: SendEmail;
+    /** Trace sent as `traceparent` and `X-Request-Id` with MailChannels requests (e.g. `ctx.get("trace")`) */
+    trace?: TraceContext;
 }
 
 export interface EmailResult {
@@ -79,7 +82,7 @@ function normalizeAddress(addr: EmailAddress | EmailAddress[]): Array<{ email: s
 /**
  * Create a mailer for Cloudflare Email Service (preferred) or deprecated MailChannels fallback.
  */
-export function createMailer(options: MailerOptions) {
+export function createMailer(options: MailerOptions): Mailer {
     const MAILCHANNELS_API = "https://api.mailchannels.net/tx/v1/send";
     let warnedAboutMailChannels = false;
 
@@ -129,7 +132,7 @@ export function createMailer(options: MailerOptions) {
         return request;
     }
 
-    async function send(emailOptions: EmailOptions): Promise<EmailResult> {
+    async function send(emailOptions: EmailOptions, trace: TraceContext | undefined): Promise<EmailResult> {
         if (options.binding) {
             const message = buildBindingMessage(emailOptions);
             const result = await options.binding.send(message);
@@ -143,7 +146,7 @@ export function createMailer(options: MailerOptions) {
 
         const response = await fetch(MAILCHANNELS_API, {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: { "Content-Type": "application/json", ...traceHeaders(trace) },
             body: JSON.stringify(buildMailChannelsRequest(emailOptions)),
         });
 
@@ -163,7 +166,13 @@ export function createMailer(options: MailerOptions) {
         return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
     }
 
-    async function sendTemplate(templateName: string, data: Record<string, unknown>, to: EmailAddress, subject?: string): Promise<EmailResult> {
+    async function sendTemplate(
+        templateName: string,
+        data: Record<string, unknown>,
+        to: EmailAddress,
+        subject: string | undefined,
+        trace: TraceContext | undefined,
+    ): Promise<EmailResult> {
         const template = templates.get(templateName);
         if (!template) throw new Error(`Template not found: ${templateName}`);
 
@@ -176,10 +185,29 @@ export function createMailer(options: MailerOptions) {
             .replace(/\s+/g, " ")
             .trim();
 
-        return send({ to, subject: subject || "", html, text });
+        return send({ to, subject: subject || "", html, text }, trace);
     }
 
-    return { send, registerTemplate, sendTemplate };
+    /** Templates are shared by every mailer derived with withTrace() */
+    function bind(trace: TraceContext | undefined): Mailer {
+        return {
+            send: (emailOptions) => send(emailOptions, trace),
+            registerTemplate,
+            sendTemplate: (templateName, data, to, subject) => sendTemplate(templateName, data, to, subject, trace),
+            withTrace: (nextTrace) => bind(nextTrace),
+        };
+    }
+
+    return bind(options.trace);
 }
 
-export type Mailer = ReturnType<typeof createMailer>;
+/**
+ * Mailer returned by createMailer()
+ */
+export interface Mailer {
+    send(emailOptions: EmailOptions): Promise<EmailResult>;
+    registerTemplate(name: string, html: string): void;
+    sendTemplate(templateName: string, data: Record<string, unknown>, to: EmailAddress, subject?: string): Promise<EmailResult>;
+    /** Mailer whose MailChannels requests carry `traceparent` and `X-Request-Id` from `trace` */
+    withTrace(trace: TraceContext): Mailer;
+}
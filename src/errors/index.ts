@@ -4,6 +4,9 @@
  * Structured error handling with operational and programming error distinction.
  */
 
+import { statusTitle, withProblem } from "./problem";
+import type { ProblemDetails } from "./problem";
+
 /**
  * Base error class for all Cloudflare Kit errors
  */
@@ -40,16 +43,29 @@ export class CloudflareKitError extends Error {
         };
     }
 
+    /**
+     * Describe this error as RFC 9457 problem details
+     */
+    toProblem(): ProblemDetails {
+        return {
+            title: statusTitle(this.statusCode),
+            status: this.statusCode,
+            detail: this.message,
+            code: this.code,
+        };
+    }
+
     /**
      * Create a Response object from this error
      */
     toResponse(): Response {
-        return new Response(JSON.stringify(this.toJSON()), {
+        const response = new Response(JSON.stringify(this.toJSON()), {
             status: this.statusCode,
             headers: {
                 "Content-Type": "application/json",
             },
         });
+        return withProblem(response, this.toProblem());
     }
 }
 
@@ -135,6 +151,14 @@ export class ValidationError extends CloudflareKitError {
         };
     }
 
+    override toProblem(): ProblemDetails {
+        return {
+            ...super.toProblem(),
+            ...(this.field && { field: this.field }),
+            ...(this.errors.length > 0 && { errors: this.errors }),
+        };
+    }
+
     static fromZodError(zodError: { issues: Array<{ path: (string | number)[]; message: string; code: string }> }): ValidationError {
         const errors = zodError.issues.map((issue) => ({
             field: issue.path.join("."),
@@ -210,10 +234,16 @@ export class RateLimitError extends CloudflareKitError {
             headers["X-RateLimit-Reset"] = String(this.resetTime);
         }
 
-        return new Response(JSON.stringify(this.toJSON()), {
-            status: this.statusCode,
-            headers,
-        });
+        return withProblem(new Response(JSON.stringify(this.toJSON()), { status: this.statusCode, headers }), this.toProblem());
+    }
+
+    override toProblem(): ProblemDetails {
+        return {
+            ...super.toProblem(),
+            ...(this.retryAfter && { retryAfter: this.retryAfter }),
+            ...(this.limit !== undefined && { limit: this.limit }),
+            ...(this.remaining !== undefined && { remaining: this.remaining }),
+        };
     }
 
     override toJSON(): Record<string, unknown> {
@@ -310,7 +340,7 @@ export function handleError(error: unknown): Response {
     const isDev = (globalThis as { ENVIRONMENT?: string }).ENVIRONMENT === "development";
     const message = isDev && error instanceof Error ? error.message : "Internal Server Error";
 
-    return new Response(
+    const response = new Response(
         JSON.stringify({
             error: {
                 code: "INTERNAL_ERROR",
@@ -324,4 +354,8 @@ export function handleError(error: unknown): Response {
             headers: { "Content-Type": "application/json" },
         },
     );
+    return withProblem(response, { title: statusTitle(500), status: 500, detail: message, code: "INTERNAL_ERROR" });
 }
+
+export { problemResponse, withProblem, getProblem, statusTitle } from "./problem";
+export type { ProblemDetails } from "./problem";
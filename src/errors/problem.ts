@@ -0,0 +1,90 @@
+/**
+ * RFC 9457 Problem Details
+ *
+ * Error responses built by the toolkit remember the problem they describe, so an
+ * app created with `problemDetails` can render them as application/problem+json
+ * while the default JSON shapes stay unchanged. The record is kept in memory only,
+ * so nothing about it reaches the client.
+ */
+
+export interface ProblemDetails {
+    /** URI identifying the problem type (default: "about:blank") */
+    type?: string;
+    /** Short summary; defaults to the HTTP status phrase */
+    title?: string;
+    status: number;
+    /** Explanation specific to this occurrence */
+    detail?: string;
+    /** URI of this occurrence, usually the request path */
+    instance?: string;
+    /** Extension members such as `errors` or `retryAfter` */
+    [extension: string]: unknown;
+}
+
+const STATUS_TITLES: Record<number, string> = {
+    400: "Bad Request",
+    401: "Unauthorized",
+    403: "Forbidden",
+    404: "Not Found",
+    405: "Method Not Allowed",
+    406: "Not Acceptable",
+    408: "Request Timeout",
+    409: "Conflict",
+    410: "Gone",
+    412: "Precondition Failed",
+    413: "Content Too Large",
+    415: "Unsupported Media Type",
+    422: "Unprocessable Content",
+    426: "Upgrade Required",
+    428: "Precondition Required",
+    429: "Too Many Requests",
+    500: "Internal Server Error",
+    501: "Not Implemented",
+    502: "Bad Gateway",
+    503: "Service Unavailable",
+    504: "Gateway Timeout",
+};
+
+const problems = new WeakMap<Response, ProblemDetails>();
+
+/**
+ * HTTP status phrase used as the default problem title
+ */
+export function statusTitle(status: number): string {
+    return STATUS_TITLES[status] ?? (status >= 500 ? "Server Error" : "Client Error");
+}
+
+/**
+ * Record the problem an error response describes and return the response
+ */
+export function withProblem(response: Response, problem: ProblemDetails): Response {
+    problems.set(response, problem);
+    return response;
+}
+
+/**
+ * Problem recorded for a response by withProblem(), if any
+ */
+export function getProblem(response: Response): ProblemDetails | undefined {
+    return problems.get(response);
+}
+
+/**
+ * Create an application/problem+json response
+ *
+ * @example
+ * ```typescript
+ * return problemResponse({ status: 403, detail: 'Your plan does not include exports', type: 'https://example.com/problems/plan' });
+ * ```
+ */
+export function problemResponse(problem: ProblemDetails, headers?: HeadersInit): Response {
+    const { type = "about:blank", title = statusTitle(problem.status), status, detail, instance, ...extensions } = problem;
+    const body = { type, title, status, ...(detail !== undefined && { detail }), ...(instance !== undefined && { instance }), ...extensions };
+
+    const responseHeaders = new Headers(headers);
+    responseHeaders.set("Content-Type", "application/problem+json");
+
+    const response = new Response(JSON.stringify(body), { status, headers: responseHeaders });
+    problems.set(response, body);
+    return response;
+}
@@ -24,18 +24,122 @@
 
 // Core
 export { createApp, parseQueryString } from "./core/app";
-export { jsonResponse, errorResponse, successResponse, redirectResponse } from "./core/response";
-export { corsMiddleware, jsonMiddleware, securityHeadersMiddleware } from "./core/middleware";
-export type { Middleware, RequestContext, AppOptions, Handler } from "./core/types";
-export type { RouterContext, Router, App } from "./core/app";
+export {
+    jsonResponse,
+    errorResponse,
+    successResponse,
+    redirectResponse,
+    htmlResponse,
+    textResponse,
+    fileResponse,
+    notModified,
+    formatETag,
+} from "./core/response";
+export type { ResponseHeaders, FileResponseOptions } from "./core/response";
+export { negotiate, createSerializerRegistry, defaultSerializers } from "./core/negotiate";
+export type { Serializer, SerializerRegistry, NegotiateOptions } from "./core/negotiate";
+export {
+    corsMiddleware,
+    jsonMiddleware,
+    securityHeadersMiddleware,
+    compressionMiddleware,
+    etagMiddleware,
+    timeoutMiddleware,
+    tracingMiddleware,
+} from "./core/middleware";
+export type {
+    JsonBodyVariables,
+    CompressionOptions,
+    CompressionEncoding,
+    ETagOptions,
+    TimeoutMiddlewareOptions,
+    TracingOptions,
+    TracingVariables,
+} from "./core/middleware";
+export { raceSignal, isAbortError } from "./core/abort";
+export { createTraceContext, parseTraceparent, formatTraceparent, traceHeaders } from "./core/trace";
+export type { TraceContext } from "./core/trace";
+export { bodyParser } from "./core/body";
+export type { BodyParserOptions, BodyVariables, BodyType, BodyStorage, FormBody, FormValue, StoredFile } from "./core/body";
+export type { Middleware, RequestContext, AppOptions, Handler, Next, Params, RouteParams } from "./core/types";
+export type { RouterContext, Router, App, MountableApp } from "./core/app";
+
+// Services
+export { createServices } from "./services/index";
+export type { ServiceContainer, ServiceFactory, ServiceLifetime, ServiceOptions } from "./services/index";
 
 // Auth
-export { createAuth, requireAuth } from "./auth/index";
-export type { AuthOptions, User, Session, AuthResult, AuthService, RequireAuthOptions } from "./auth/index";
+export { createAuth, requireAuth, csrfProtection } from "./auth/index";
+export type {
+    AuthOptions,
+    User,
+    Session,
+    AuthResult,
+    AuthService,
+    RequireAuthOptions,
+    AuthVariables,
+    CsrfOptions,
+    CsrfCookieOptions,
+    CsrfVariables,
+} from "./auth/index";
 
 // Database
-export { createDatabase } from "./database/index";
-export type { D1Database, D1Result, DatabaseOptions, DatabaseService, WhereOperator, WhereCondition, WhereClause } from "./database/index";
+export {
+    createDatabase,
+    createQueryBuilder,
+    column,
+    defineTable,
+    createTableSQL,
+    Column,
+    createMigrator,
+    parseMigrationFile,
+    splitStatements,
+    paginate,
+    paginatedResponse,
+    paginationQuery,
+} from "./database/index";
+export type {
+    D1Database,
+    D1Result,
+    DatabaseOptions,
+    DatabaseService,
+    WhereOperator,
+    WhereCondition,
+    WhereClause,
+    QueryBuilder,
+    QueryExecutor,
+    WhereFilter,
+    CompiledQuery,
+    OrderDirection,
+    JoinType,
+    ColumnKind,
+    ColumnConfig,
+    ForeignKeyAction,
+    AnyColumn,
+    ColumnMap,
+    Table,
+    TableIndex,
+    TableOptions,
+    InferRow,
+    InferInsert,
+    InferUpdate,
+    Migration,
+    MigrationStatus,
+    MigrationStep,
+    MigrationResult,
+    MigratorOptions,
+    MigrateOptions,
+    Migrator,
+    Transaction,
+    TransactionStatement,
+    ReturningOptions,
+    Returning,
+    PaginationOrder,
+    CursorPaginationOptions,
+    OffsetPaginationOptions,
+    CursorPage,
+    OffsetPage,
+} from "./database/index";
 
 // Cache
 export { createCache } from "./cache/index";
@@ -61,16 +165,29 @@ export type { QueueOptions, QueueService, QueueMessage, SendResult, QueueHandler
 
 // Logging
 export { createLogger } from "./logging/index";
-export type { Logger, LoggerOptions, LogEntry } from "./logging/index";
+export type { Logger, LoggerOptions, LogEntry, LoggerVariables } from "./logging/index";
 
 // Security
 export { rateLimit, validateRequest } from "./security/index";
 export type { RateLimitOptions, ValidationSchema } from "./security/index";
+export { accessControl } from "./security/access-control";
+export type { AccessControlOptions, AccessRules, AccessRouteRule, AccessDenialReason } from "./security/access-control";
 
 // Rate Limiter (Enterprise)
 export { createRateLimiter, createMemoryRateLimitStore, createKVRateLimitStore, createRateLimitMiddleware } from "./security/rate-limiter/index";
 export type { RateLimiter, RateLimiterConfig, RateLimitResult, RateLimitStore, RateLimitData } from "./security/rate-limiter/types";
 
+// Idempotency
+export { idempotency, createMemoryIdempotencyStore, createCacheIdempotencyStore, createD1IdempotencyStore } from "./security/idempotency/index";
+export type {
+    IdempotencyOptions,
+    IdempotencyRecord,
+    IdempotencyStore,
+    StoredResponse,
+    CacheIdempotencyConfig,
+    D1IdempotencyConfig,
+} from "./security/idempotency/index";
+
 // Errors (Enterprise)
 export {
     CloudflareKitError,
@@ -85,11 +202,15 @@ export {
     isCloudflareKitError,
     isOperationalError,
     handleError,
+    problemResponse,
+    withProblem,
+    getProblem,
 } from "./errors/index";
+export type { ProblemDetails } from "./errors/index";
 
 // Plugins (Enterprise)
 export { definePlugin, createPlugin, composePlugins, PluginRegistry, globalRegistry } from "./plugins/index";
-export type { Plugin, PluginContext, PluginHooks, App as PluginApp, HookHandler } from "./plugins/types";
+export type { Plugin, PluginContext, PluginHooks, App as PluginApp, HookHandler, Logger as PluginLogger } from "./plugins/types";
 
 // ============================================================
 // NEW FEATURES FOR v2.0
@@ -164,6 +285,7 @@ export type {
     OpenAPIRequestBody,
     OpenAPIResponse,
     RouteMetadata,
+    RouteDefinition,
     OpenAPIOptions,
     OpenAPISpec,
     OpenAPIService,
@@ -4,6 +4,8 @@
  * Provides createLogger() for structured logging.
  */
 
+import { incomingRequestId, type TraceContext } from "../core/trace";
+
 export interface LoggerOptions {
     level?: "debug" | "info" | "warn" | "error";
     service?: string;
@@ -19,6 +21,14 @@ export interface LogEntry {
     data?: Record<string, unknown>;
 }
 
+/**
+ * Variables requestLogger() stores for downstream handlers (`ctx.get("logger")`)
+ */
+export interface LoggerVariables {
+    requestId: string;
+    logger: Logger;
+}
+
 type LogLevel = "debug" | "info" | "warn" | "error";
 
 const LOG_LEVELS: Record<LogLevel, number> = {
@@ -157,14 +167,21 @@ export function createLogger(options: LoggerOptions = {}) {
 
         /**
          * Middleware that logs each request with a request id, method, path, status, and duration
+         *
+         * The request id comes from tracingMiddleware() when registered earlier (which also adds
+         * `traceId` and `spanId` to the logger), else from a valid incoming `X-Request-Id`.
          */
-        requestLogger(): import("../core/types").Middleware {
+        requestLogger(): import("../core/types").Middleware<Record<string, unknown>, import("../core/types").Params, {}, LoggerVariables> {
             return async (context) => {
-                const requestId = crypto.randomUUID();
+                const trace = context.state.trace as TraceContext | undefined;
+                const requestId = trace?.requestId ?? incomingRequestId(context.request) ?? crypto.randomUUID();
                 const start = Date.now();
                 context.state.requestId = requestId;
 
-                const childLogger = createLogger({ level: minLevel, service, environment }).child({ requestId });
+                const childLogger = createLogger({ level: minLevel, service, environment }).child({
+                    requestId,
+                    ...(trace && { traceId: trace.traceId, spanId: trace.spanId }),
+                });
                 context.state.logger = childLogger;
 
                 const method = context.request.method;
@@ -5,6 +5,8 @@
  * No external dependencies - uses fetch() for all HTTP calls.
  */
 
+import { traceHeaders, type TraceContext } from "../core/trace";
+
 /**
  * Supported OAuth providers
  */
@@ -60,6 +62,10 @@ export interface OAuthOptions {
     redirectUri: string;
     /** Optional additional scopes */
     scopes?: string[];
+    /** Abort signal (e.g. `ctx.signal`) passed to every provider request */
+    signal?: AbortSignal;
+    /** Trace propagated to every provider request (e.g. `ctx.get("trace")`) */
+    trace?: TraceContext;
 }
 
 /**
@@ -217,7 +223,10 @@ function base64URLEncode(buffer: Uint8Array): string {
  * });
  * ```
  */
-export function createOAuth(options: OAuthOptions) {
+export function createOAuth(options: OAuthOptions): OAuthClient {
+    const signal = options.signal;
+    const tracing = traceHeaders(options.trace);
+
     const config = providerConfigs[options.provider];
     const scopes = [...config.defaultScopes, ...(options.scopes || [])];
 
@@ -273,7 +282,9 @@ export function createOAuth(options: OAuthOptions) {
             headers: {
                 "Content-Type": "application/x-www-form-urlencoded",
                 Accept: "application/json",
+                ...tracing,
             },
+            signal,
             body: new URLSearchParams({
                 grant_type: "authorization_code",
                 code,
@@ -323,6 +334,7 @@ export function createOAuth(options: OAuthOptions) {
         const headers: Record<string, string> = {
             Authorization: `Bearer ${accessToken}`,
             Accept: "application/json",
+            ...tracing,
         };
 
         // GitHub uses a different header format
@@ -330,7 +342,7 @@ export function createOAuth(options: OAuthOptions) {
             headers.Authorization = `token ${accessToken}`;
         }
 
-        const userResponse = await fetch(config.userUrl, { headers });
+        const userResponse = await fetch(config.userUrl, { headers, signal });
 
         if (!userResponse.ok) {
             const errorText = await userResponse.text();
@@ -346,7 +358,9 @@ export function createOAuth(options: OAuthOptions) {
                     headers: {
                         Authorization: `token ${accessToken}`,
                         Accept: "application/vnd.github.v3+json",
+                        ...tracing,
                     },
+                    signal,
                 });
 
                 if (emailsResponse.ok) {
@@ -360,7 +374,8 @@ export function createOAuth(options: OAuthOptions) {
                         userData.email = primaryEmail.email;
                     }
                 }
-            } catch {
+            } catch (error) {
+                if (signal?.aborted) throw error;
                 // Ignore email fetch errors
             }
         }
@@ -381,7 +396,9 @@ export function createOAuth(options: OAuthOptions) {
             headers: {
                 "Content-Type": "application/x-www-form-urlencoded",
                 Accept: "application/json",
+                ...tracing,
             },
+            signal,
             body: new URLSearchParams({
                 grant_type: "refresh_token",
                 refresh_token: refreshToken,
@@ -424,6 +441,16 @@ export function createOAuth(options: OAuthOptions) {
          * Refresh access token
          */
         refreshToken,
+
+        /**
+         * Client whose provider requests are cancelled by `signal`
+         */
+        withSignal: (nextSignal: AbortSignal) => createOAuth({ ...options, signal: nextSignal }),
+
+        /**
+         * Client whose provider requests carry `traceparent` and `X-Request-Id` from `trace`
+         */
+        withTrace: (trace: TraceContext) => createOAuth({ ...options, trace }),
     };
 }
 
@@ -433,6 +460,17 @@ export function createOAuth(options: OAuthOptions) {
 export type OAuthConfig = OAuthOptions;
 
 /**
- * Create OAuth client type
+ * OAuth client returned by createOAuth()
  */
-export type OAuthClient = ReturnType<typeof createOAuth>;
+export interface OAuthClient {
+    /** Generate the authorization URL */
+    getAuthUrl(state?: string): Promise<AuthUrlResult>;
+    /** Exchange authorization code for tokens and user profile */
+    handleCallback(code: string, codeVerifier: string, state?: string, expectedState?: string): Promise<OAuthResult>;
+    /** Refresh access token */
+    refreshToken(refreshToken: string): Promise<TokenResult>;
+    /** Client whose provider requests are cancelled by `signal` */
+    withSignal(signal: AbortSignal): OAuthClient;
+    /** Client whose provider requests carry `traceparent` and `X-Request-Id` from `trace` */
+    withTrace(trace: TraceContext): OAuthClient;
+}
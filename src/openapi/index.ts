@@ -90,6 +90,11 @@ export interface RouteMetadata {
     security?: Array<Record<string, string[]>>;
 }
 
+/**
+ * Route metadata from defineRoute(); a no-op middleware, so the route also runs without attach()
+ */
+export type RouteDefinition = (() => void) & { _openapiMetadata: RouteMetadata };
+
 /**
  * OpenAPI options
  */
@@ -268,7 +273,7 @@ export function createOpenAPI(options: OpenAPIOptions): OpenAPIService {
             if (metadata) {
                 registerRoute("get", path, metadata);
             }
-            const callables = handlers.filter((h) => typeof h === "function") as Array<import("../core/types").Middleware | Handler>;
+            const callables = handlers.filter((h) => typeof h === "function") as [...import("../core/types").Middleware[], Handler];
             if (callables.length > 0) {
                 originalGet(path, ...callables);
             }
@@ -280,7 +285,7 @@ export function createOpenAPI(options: OpenAPIOptions): OpenAPIService {
             if (metadata) {
                 registerRoute("post", path, metadata);
             }
-            const callables = handlers.filter((h) => typeof h === "function") as Array<import("../core/types").Middleware | Handler>;
+            const callables = handlers.filter((h) => typeof h === "function") as [...import("../core/types").Middleware[], Handler];
             if (callables.length > 0) {
                 originalPost(path, ...callables);
             }
@@ -292,7 +297,7 @@ export function createOpenAPI(options: OpenAPIOptions): OpenAPIService {
             if (metadata) {
                 registerRoute("put", path, metadata);
             }
-            const callables = handlers.filter((h) => typeof h === "function") as Array<import("../core/types").Middleware | Handler>;
+            const callables = handlers.filter((h) => typeof h === "function") as [...import("../core/types").Middleware[], Handler];
             if (callables.length > 0) {
                 originalPut(path, ...callables);
             }
@@ -304,7 +309,7 @@ export function createOpenAPI(options: OpenAPIOptions): OpenAPIService {
             if (metadata) {
                 registerRoute("delete", path, metadata);
             }
-            const callables = handlers.filter((h) => typeof h === "function") as Array<import("../core/types").Middleware | Handler>;
+            const callables = handlers.filter((h) => typeof h === "function") as [...import("../core/types").Middleware[], Handler];
             if (callables.length > 0) {
                 originalDelete(path, ...callables);
             }
@@ -316,7 +321,7 @@ export function createOpenAPI(options: OpenAPIOptions): OpenAPIService {
             if (metadata) {
                 registerRoute("patch", path, metadata);
             }
-            const callables = handlers.filter((h) => typeof h === "function") as Array<import("../core/types").Middleware | Handler>;
+            const callables = handlers.filter((h) => typeof h === "function") as [...import("../core/types").Middleware[], Handler];
             if (callables.length > 0) {
                 originalPatch(path, ...callables);
             }
@@ -329,7 +334,7 @@ export function createOpenAPI(options: OpenAPIOptions): OpenAPIService {
      */
     function extractMetadata(handlers: unknown[]): RouteMetadata | null {
         for (const handler of handlers) {
-            if (handler && typeof handler === "object" && "_openapiMetadata" in handler) {
+            if (typeof handler === "function" && "_openapiMetadata" in handler) {
                 return (handler as { _openapiMetadata: RouteMetadata })._openapiMetadata;
             }
         }
@@ -349,8 +354,8 @@ export function createOpenAPI(options: OpenAPIOptions): OpenAPIService {
  * Usage:
  *   app.get('/users', defineRoute({ summary: 'List users' }), handler)
  */
-export function defineRoute(metadata: RouteMetadata): { _openapiMetadata: RouteMetadata } {
-    return { _openapiMetadata: metadata };
+export function defineRoute(metadata: RouteMetadata): RouteDefinition {
+    return Object.assign(() => {}, { _openapiMetadata: metadata });
 }
 
 /**
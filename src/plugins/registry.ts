@@ -149,6 +149,18 @@ export class PluginRegistry {
         }
     }
 
+    /**
+     * Emit a hook event, stopping at and rethrowing the first handler failure
+     */
+    async emitStrict<K extends keyof PluginHooks>(event: K, ...args: Parameters<NonNullable<PluginHooks[K]>>): Promise<void> {
+        const handlers = this.hooks.get(event);
+        if (!handlers) return;
+
+        for (const handler of handlers) {
+            await (handler as (...args: unknown[]) => Promise<void> | void)(...args);
+        }
+    }
+
     /**
      * Get a plugin by name
      */
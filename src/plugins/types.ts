@@ -5,7 +5,11 @@
  */
 
 // Local type definitions to avoid circular dependencies
-interface Logger {
+
+/**
+ * Minimal logger shape used by plugins and app lifecycle hooks
+ */
+export interface Logger {
     debug(message: string, data?: Record<string, unknown>): void;
     info(message: string, data?: Record<string, unknown>): void;
     warn(message: string, data?: Record<string, unknown>): void;
@@ -85,10 +89,15 @@ export interface PluginHooks {
     "app:init": (app: App) => void | Promise<void>;
 
     /**
-     * Called when the application is shutting down
+     * Called when the application is shutting down; only emitted by `app.shutdown()`
      */
     "app:shutdown": (app: App) => void | Promise<void>;
 
+    /**
+     * Called after every response through `executionContext.waitUntil`, e.g. to flush buffered logs or metrics
+     */
+    "app:flush": (app: App) => void | Promise<void>;
+
     /**
      * Called at the start of request processing
      */
@@ -0,0 +1,263 @@
+/**
+ * Access Control
+ *
+ * Allow and deny requests by client IP (IPv4/IPv6 CIDR), `request.cf` country
+ * and ASN, with per-route overrides and lists that can live in KV.
+ */
+
+import type { KVNamespace } from "@cloudflare/workers-types";
+import type { Middleware, RequestContext } from "../core/types";
+import { errorResponse } from "../core/response";
+import { ConfigError } from "../errors/index";
+
+/**
+ * Allow and deny lists
+ *
+ * Deny rules always win. When any allow list is set, a request must match at
+ * least one allow entry (IP, country or ASN) to get through.
+ */
+export interface AccessRules {
+    /** IPs or CIDR ranges, e.g. "203.0.113.0/24", "2001:db8::/32" */
+    allowIps?: string[];
+    denyIps?: string[];
+    /** ISO 3166-1 alpha-2 country codes from `request.cf.country` */
+    allowCountries?: string[];
+    denyCountries?: string[];
+    /** Autonomous system numbers from `request.cf.asn` */
+    allowAsns?: number[];
+    denyAsns?: number[];
+}
+
+export interface AccessRouteRule {
+    /** Exact path, path prefix ending in "*", pattern or predicate */
+    match: string | RegExp | ((context: RequestContext) => boolean);
+    /** Limit the override to these methods (default: all) */
+    methods?: string[];
+    rules: AccessRules;
+    /** Enforce the global rules too, so a request must pass both (default: false, the route rules replace them) */
+    extend?: boolean;
+}
+
+export type AccessDenialReason = "ip" | "country" | "asn" | "not-allowed";
+
+export interface AccessControlOptions extends AccessRules {
+    /** Route-specific rules; the first matching entry applies */
+    routes?: AccessRouteRule[];
+    /** Global lists stored as an AccessRules JSON document in KV, merged with the static ones */
+    kv?: {
+        binding: KVNamespace | ((env: Record<string, unknown>) => KVNamespace);
+        /** Default: "access-rules" */
+        key?: string;
+        /** How long loaded lists are reused before KV is read again (default: 60) */
+        refreshSeconds?: number;
+    };
+    /** Header carrying the client IP (default: "CF-Connecting-IP") */
+    ipHeader?: string;
+    /** Custom rejection; the default is a 403 JSON error */
+    onDenied?: (context: RequestContext, reason: AccessDenialReason) => Response | Promise<Response>;
+}
+
+interface Address {
+    v6: boolean;
+    value: bigint;
+}
+
+interface IpRange extends Address {
+    bits: number;
+}
+
+interface CompiledRules {
+    allowIps: IpRange[];
+    denyIps: IpRange[];
+    allowCountries: Set<string>;
+    denyCountries: Set<string>;
+    allowAsns: Set<number>;
+    denyAsns: Set<number>;
+}
+
+function parseIPv4(ip: string): bigint | null {
+    const parts = ip.split(".");
+    if (parts.length !== 4) return null;
+    let value = 0n;
+    for (const part of parts) {
+        if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+        value = (value << 8n) | BigInt(part);
+    }
+    return value;
+}
+
+function parseIPv6(input: string): bigint | null {
+    let ip = input.split("%")[0]!;
+    let embedded: bigint | null = null;
+
+    // Trailing dotted IPv4 (e.g. ::ffff:192.0.2.1) fills the last two groups
+    const lastColon = ip.lastIndexOf(":");
+    if (ip.includes(".", lastColon)) {
+        embedded = parseIPv4(ip.slice(lastColon + 1));
+        if (embedded === null) return null;
+        ip = `${ip.slice(0, lastColon + 1)}0:0`;
+    }
+
+    const halves = ip.split("::");
+    if (halves.length > 2) return null;
+    const head = halves[0] ? halves[0].split(":") : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+    const missing = 8 - head.length - tail.length;
+    if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+    let value = 0n;
+    for (const group of [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...tail]) {
+        if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+        value = (value << 16n) | BigInt(parseInt(group, 16));
+    }
+    return embedded === null ? value : value | embedded;
+}
+
+/** Parse an address; IPv4-mapped IPv6 addresses are treated as IPv4 */
+function parseAddress(ip: string): Address | null {
+    const v4 = parseIPv4(ip);
+    if (v4 !== null) return { v6: false, value: v4 };
+
+    const v6 = parseIPv6(ip);
+    if (v6 === null) return null;
+    if (v6 >> 32n === 0xffffn) return { v6: false, value: v6 & 0xffffffffn };
+    return { v6: true, value: v6 };
+}
+
+function parseRange(entry: string, field: string): IpRange {
+    const [ip, prefix] = entry.trim().split("/");
+    const address = parseAddress(ip!);
+    const width = address?.v6 ? 128 : 32;
+    const bits = prefix === undefined ? width : Number(prefix);
+    if (!address || !/^\d+$/.test(prefix ?? String(width)) || bits > width) {
+        throw new ConfigError(`Invalid IP or CIDR range: ${entry}`, field);
+    }
+    return { ...address, bits };
+}
+
+function inRange(range: IpRange, address: Address): boolean {
+    if (range.v6 !== address.v6) return false;
+    const shift = BigInt((range.v6 ? 128 : 32) - range.bits);
+    return address.value >> shift === range.value >> shift;
+}
+
+function compile(rules: AccessRules): CompiledRules {
+    const countries = (list: string[] | undefined) => new Set((list ?? []).map((code) => code.toUpperCase()));
+    return {
+        allowIps: (rules.allowIps ?? []).map((entry) => parseRange(entry, "allowIps")),
+        denyIps: (rules.denyIps ?? []).map((entry) => parseRange(entry, "denyIps")),
+        allowCountries: countries(rules.allowCountries),
+        denyCountries: countries(rules.denyCountries),
+        allowAsns: new Set(rules.allowAsns ?? []),
+        denyAsns: new Set(rules.denyAsns ?? []),
+    };
+}
+
+function merge(a: CompiledRules, b: CompiledRules): CompiledRules {
+    return {
+        allowIps: [...a.allowIps, ...b.allowIps],
+        denyIps: [...a.denyIps, ...b.denyIps],
+        allowCountries: new Set([...a.allowCountries, ...b.allowCountries]),
+        denyCountries: new Set([...a.denyCountries, ...b.denyCountries]),
+        allowAsns: new Set([...a.allowAsns, ...b.allowAsns]),
+        denyAsns: new Set([...a.denyAsns, ...b.denyAsns]),
+    };
+}
+
+function evaluate(rules: CompiledRules, address: Address | null, country: string | undefined, asn: number | undefined): AccessDenialReason | null {
+    if (address && rules.denyIps.some((range) => inRange(range, address))) return "ip";
+    if (country && rules.denyCountries.has(country)) return "country";
+    if (asn !== undefined && rules.denyAsns.has(asn)) return "asn";
+
+    const hasAllowList = rules.allowIps.length > 0 || rules.allowCountries.size > 0 || rules.allowAsns.size > 0;
+    if (!hasAllowList) return null;
+
+    const allowed =
+        (address !== null && rules.allowIps.some((range) => inRange(range, address))) ||
+        (country !== undefined && rules.allowCountries.has(country)) ||
+        (asn !== undefined && rules.allowAsns.has(asn));
+    return allowed ? null : "not-allowed";
+}
+
+function routeMatches(route: AccessRouteRule, context: RequestContext): boolean {
+    if (route.methods && !route.methods.some((method) => method.toUpperCase() === context.request.method)) return false;
+    const { match } = route;
+    const path = context.url.pathname;
+    if (typeof match === "function") return match(context);
+    if (match instanceof RegExp) return match.test(path);
+    return match.endsWith("*") ? path.startsWith(match.slice(0, -1)) : path === match;
+}
+
+/**
+ * IP, country and ASN access control
+ *
+ * Invalid entries in static lists throw a ConfigError when the middleware is
+ * created. When the KV document cannot be read or parsed, the last lists loaded
+ * successfully stay in use (the static lists alone before the first load).
+ *
+ * @example
+ * ```typescript
+ * app.use(accessControl({
+ *   denyCountries: ['KP'],
+ *   kv: { binding: (env) => env.ACCESS_KV as KVNamespace },
+ *   routes: [
+ *     { match: '/admin/*', rules: { allowIps: ['203.0.113.0/24', '2001:db8::/48'] }, extend: true },
+ *     { match: '/health', rules: {} },
+ *   ],
+ * }));
+ * ```
+ */
+export function accessControl(options: AccessControlOptions): Middleware {
+    const ipHeader = options.ipHeader ?? "CF-Connecting-IP";
+    const staticRules = compile(options);
+    const routes = (options.routes ?? []).map((route) => ({ route, rules: compile(route.rules) }));
+    const kvKey = options.kv?.key ?? "access-rules";
+    const refreshMs = (options.kv?.refreshSeconds ?? 60) * 1000;
+
+    /** Static lists merged with the last KV document */
+    let remote: { rules: CompiledRules; loadedAt: number } | undefined;
+    let loading: Promise<CompiledRules> | undefined;
+
+    async function load(env: Record<string, unknown>): Promise<CompiledRules> {
+        const binding = options.kv!.binding;
+        const kv = typeof binding === "function" ? binding(env) : binding;
+        try {
+            const document = await kv.get<AccessRules>(kvKey, "json");
+            remote = { rules: merge(staticRules, compile(document ?? {})), loadedAt: Date.now() };
+        } catch {
+            remote = { rules: remote?.rules ?? staticRules, loadedAt: Date.now() };
+        }
+        return remote.rules;
+    }
+
+    async function globalRules(env: Record<string, unknown>): Promise<CompiledRules> {
+        if (!options.kv) return staticRules;
+        if (!remote || Date.now() - remote.loadedAt >= refreshMs) {
+            loading ??= load(env).finally(() => (loading = undefined));
+            await loading;
+        }
+        return remote!.rules;
+    }
+
+    return async (context: RequestContext): Promise<Response | void> => {
+        const override = routes.find(({ route }) => routeMatches(route, context));
+        const ruleSets = override ? [override.rules] : [];
+        if (!override || override.route.extend) {
+            ruleSets.unshift(await globalRules(context.env));
+        }
+
+        const ip = context.request.headers.get(ipHeader);
+        const address = ip ? parseAddress(ip.trim()) : null;
+        const cf = context.request.cf;
+        const country = typeof cf?.country === "string" ? cf.country.toUpperCase() : undefined;
+        const asn = typeof cf?.asn === "number" ? cf.asn : undefined;
+
+        let reason: AccessDenialReason | null = null;
+        for (const rules of ruleSets) {
+            reason ??= evaluate(rules, address, country, asn);
+        }
+        if (reason === null) return undefined;
+
+        return options.onDenied ? options.onDenied(context, reason) : errorResponse("Access denied", 403);
+    };
+}
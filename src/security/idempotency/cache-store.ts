@@ -0,0 +1,59 @@
+/**
+ * Cache-based Idempotency Store
+ *
+ * Stores Idempotency-Key records in KV through createCache().
+ *
+ * IMPORTANT: KV get-then-put is NOT atomic. Two duplicates arriving at the same
+ * moment in different isolates can both claim a key. Use the D1 store when
+ * concurrent duplicates must be rejected reliably.
+ */
+
+import type { CacheService } from "../../cache/index";
+import type { IdempotencyRecord, IdempotencyStore, StoredResponse } from "./types";
+
+/**
+ * Configuration for the cache idempotency store
+ */
+export interface CacheIdempotencyConfig {
+    cache: CacheService;
+    prefix?: string;
+}
+
+/** KV rejects expiration TTLs below 60 seconds */
+const MIN_KV_TTL = 60;
+
+/**
+ * Create a KV-backed idempotency store
+ *
+ * @example
+ * ```typescript
+ * const store = createCacheIdempotencyStore({ cache: createCache({ binding: env.CACHE }) });
+ * ```
+ */
+export function createCacheIdempotencyStore(config: CacheIdempotencyConfig): IdempotencyStore {
+    const prefix = config.prefix ?? "idempotency:";
+    const cache = config.cache;
+
+    return {
+        async begin(key: string, fingerprint: string, lockSeconds: number): Promise<IdempotencyRecord | null> {
+            const existing = await cache.get<IdempotencyRecord>(prefix + key);
+            if (existing && existing.expiresAt > Date.now()) {
+                return existing;
+            }
+
+            // Best-effort claim (not atomic across isolates)
+            const record: IdempotencyRecord = { status: "in_flight", fingerprint, expiresAt: Date.now() + lockSeconds * 1000 };
+            await cache.set(prefix + key, record, Math.max(lockSeconds, MIN_KV_TTL));
+            return null;
+        },
+
+        async complete(key: string, fingerprint: string, response: StoredResponse, ttlSeconds: number): Promise<void> {
+            const record: IdempotencyRecord = { status: "completed", fingerprint, expiresAt: Date.now() + ttlSeconds * 1000, response };
+            await cache.set(prefix + key, record, Math.max(ttlSeconds, MIN_KV_TTL));
+        },
+
+        async release(key: string): Promise<void> {
+            await cache.delete(prefix + key);
+        },
+    };
+}
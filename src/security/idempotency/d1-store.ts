@@ -0,0 +1,111 @@
+/**
+ * D1-based Idempotency Store
+ *
+ * Claims keys with a single conditional upsert, so concurrent duplicates are
+ * rejected reliably across isolates.
+ */
+
+import { validateIdentifier, type D1Database, type DatabaseService } from "../../database/index";
+import type { IdempotencyRecord, IdempotencyStore, StoredResponse } from "./types";
+
+/**
+ * Configuration for the D1 idempotency store
+ */
+export interface D1IdempotencyConfig {
+    database: DatabaseService;
+    /** Table holding the records (default: "idempotency_keys") */
+    table?: string;
+    /** Create the table on first use (default: true); disable when it is managed by migrations */
+    createTable?: boolean;
+}
+
+interface IdempotencyRow {
+    fingerprint: string;
+    status: IdempotencyRecord["status"];
+    response: string | null;
+    expires_at: number;
+}
+
+/** Tables already created per binding, so stores built per request skip the DDL */
+const createdTables = new WeakMap<D1Database, Map<string, Promise<unknown>>>();
+
+/**
+ * Create a D1-backed idempotency store
+ *
+ * Expired rows are overwritten when their key is reused; delete rows with
+ * `expires_at` in the past from a scheduled job to reclaim space.
+ *
+ * @example
+ * ```typescript
+ * app.use(idempotency({ store: (ctx) => createD1IdempotencyStore({ database: createDatabase({ binding: ctx.env.DB }) }) }));
+ * ```
+ */
+export function createD1IdempotencyStore(config: D1IdempotencyConfig): IdempotencyStore {
+    const db = config.database;
+    const table = validateIdentifier(config.table ?? "idempotency_keys");
+
+    function ensureTable(): Promise<unknown> {
+        if (config.createTable === false) return Promise.resolve();
+        const binding = db.getBinding();
+        const tables = createdTables.get(binding) ?? new Map<string, Promise<unknown>>();
+        createdTables.set(binding, tables);
+
+        let ready = tables.get(table);
+        if (!ready) {
+            ready = db
+                .execute(
+                    `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, fingerprint TEXT NOT NULL, status TEXT NOT NULL, response TEXT, expires_at INTEGER NOT NULL)`,
+                )
+                .catch((error) => {
+                    tables.delete(table);
+                    throw error;
+                });
+            tables.set(table, ready);
+        }
+        return ready;
+    }
+
+    return {
+        async begin(key: string, fingerprint: string, lockSeconds: number): Promise<IdempotencyRecord | null> {
+            await ensureTable();
+            const now = Date.now();
+
+            // Claims a new key or one whose record expired; leaves live records untouched
+            const claim = await db.execute(
+                `INSERT INTO ${table} (key, fingerprint, status, response, expires_at) VALUES (?, ?, 'in_flight', NULL, ?) ` +
+                    `ON CONFLICT(key) DO UPDATE SET fingerprint = excluded.fingerprint, status = 'in_flight', response = NULL, expires_at = excluded.expires_at ` +
+                    `WHERE ${table}.expires_at <= ?`,
+                [key, fingerprint, now + lockSeconds * 1000, now],
+            );
+            if ((claim.meta?.changes ?? 0) > 0) {
+                return null;
+            }
+
+            const row = await db.get<IdempotencyRow>(`SELECT fingerprint, status, response, expires_at FROM ${table} WHERE key = ?`, [key]);
+            if (!row) {
+                // Released between the claim attempt and the read
+                return this.begin(key, fingerprint, lockSeconds);
+            }
+
+            return {
+                status: row.status,
+                fingerprint: row.fingerprint,
+                expiresAt: row.expires_at,
+                ...(row.response !== null && { response: JSON.parse(row.response) as StoredResponse }),
+            };
+        },
+
+        async complete(key: string, fingerprint: string, response: StoredResponse, ttlSeconds: number): Promise<void> {
+            await db.execute(`UPDATE ${table} SET fingerprint = ?, status = 'completed', response = ?, expires_at = ? WHERE key = ?`, [
+                fingerprint,
+                JSON.stringify(response),
+                Date.now() + ttlSeconds * 1000,
+                key,
+            ]);
+        },
+
+        async release(key: string): Promise<void> {
+            await db.execute(`DELETE FROM ${table} WHERE key = ?`, [key]);
+        },
+    };
+}
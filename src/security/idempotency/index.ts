@@ -0,0 +1,156 @@
+/**
+ * Idempotency
+ *
+ * Makes retried unsafe requests safe: the first response for an Idempotency-Key
+ * is stored and replayed for later requests carrying the same key.
+ */
+
+import { base64UrlToBytes, bytesToBase64Url } from "../../auth/crypto";
+import { errorResponse } from "../../core/response";
+import { ConfigError } from "../../errors/index";
+import type { Middleware, RequestContext } from "../../core/types";
+import type { IdempotencyOptions, StoredResponse } from "./types";
+
+export type { IdempotencyOptions, IdempotencyRecord, IdempotencyStore, StoredResponse } from "./types";
+
+export { createMemoryIdempotencyStore } from "./memory-store";
+export { createCacheIdempotencyStore } from "./cache-store";
+export type { CacheIdempotencyConfig } from "./cache-store";
+export { createD1IdempotencyStore } from "./d1-store";
+export type { D1IdempotencyConfig } from "./d1-store";
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Bytes standing in for a body that jsonMiddleware() or bodyParser() already read:
+ * the parsed value as JSON, followed by the contents of any buffered files
+ */
+async function parsedBodyBytes(body: unknown): Promise<Uint8Array[]> {
+    const blobs: Blob[] = [];
+    const json = JSON.stringify(body, (_key, value: unknown) => {
+        if (!(value instanceof Blob)) return value;
+        blobs.push(value);
+        return { blob: blobs.length - 1, type: value.type, size: value.size };
+    });
+    const files = await Promise.all(blobs.map(async (blob) => new Uint8Array(await blob.arrayBuffer())));
+    return [new TextEncoder().encode(json ?? ""), ...files];
+}
+
+/**
+ * SHA-256 of the method, path and body, so a reused key with a different request is detected
+ */
+async function fingerprint(context: RequestContext): Promise<string> {
+    const { request, url } = context;
+    let body: Uint8Array[];
+    if (!request.bodyUsed) {
+        body = [new Uint8Array(await request.clone().arrayBuffer())];
+    } else if ("body" in context.state) {
+        body = await parsedBodyBytes(context.state.body);
+    } else {
+        throw new ConfigError(
+            "idempotency() cannot fingerprint a request body that was already read; register it before middleware that reads the body, or after jsonMiddleware()/bodyParser()",
+            "idempotency",
+        );
+    }
+
+    const chunks = [new TextEncoder().encode(`${request.method} ${url.pathname}${url.search}\n`), ...body];
+    const data = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        data.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+
+    const digest = await crypto.subtle.digest("SHA-256", data);
+    return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function replay(stored: StoredResponse): Response {
+    const headers = new Headers(stored.headers);
+    headers.set("Idempotent-Replayed", "true");
+    const body = stored.body ? base64UrlToBytes(stored.body) : null;
+    return new Response(body, { status: stored.status, headers });
+}
+
+/**
+ * Idempotency-Key middleware for unsafe methods
+ *
+ * - First request: claims the key, runs the handler and stores status, headers and body
+ * - Retry with the same request: replays the stored response with `Idempotent-Replayed: true`
+ * - Duplicate while the first is still running: 409 with `Retry-After`
+ * - Same key with a different method, path or body: 422
+ *
+ * Responses with a 5xx status, and handler errors, release the key so the client can retry.
+ *
+ * The request body is part of the fingerprint. Registered before body parsing, it is
+ * read from a clone; registered after jsonMiddleware() or bodyParser(), the parsed
+ * `ctx.state.body` is used instead. Any other middleware that consumes the body must
+ * come after it.
+ *
+ * @example
+ * ```typescript
+ * app.use(idempotency({
+ *   store: (ctx) => createD1IdempotencyStore({ database: createDatabase({ binding: ctx.env.DB }) }),
+ *   scope: (ctx) => (ctx.state.user as User | undefined)?.id ?? 'anonymous',
+ * }));
+ * ```
+ */
+export function idempotency(options: IdempotencyOptions): Middleware {
+    const header = options.header ?? "Idempotency-Key";
+    const methods = new Set((options.methods ?? ["POST", "PATCH"]).map((method) => method.toUpperCase()));
+    const ttlSeconds = options.ttlSeconds ?? 86400;
+    const lockSeconds = options.lockSeconds ?? 60;
+
+    return async (context, next): Promise<Response> => {
+        if (!methods.has(context.request.method)) {
+            return next();
+        }
+
+        const key = context.request.headers.get(header);
+        if (!key) {
+            return options.required ? errorResponse(`${header} header is required`, 400) : next();
+        }
+        if (key.length > MAX_KEY_LENGTH) {
+            return errorResponse(`${header} must be at most ${MAX_KEY_LENGTH} characters`, 400);
+        }
+
+        const store = typeof options.store === "function" ? options.store(context) : options.store;
+        const storeKey = options.scope ? `${await options.scope(context)}:${key}` : key;
+        const requestFingerprint = await fingerprint(context);
+        const existing = await store.begin(storeKey, requestFingerprint, lockSeconds);
+
+        if (existing) {
+            if (existing.fingerprint !== requestFingerprint) {
+                return errorResponse(`${header} was already used for a different request`, 422);
+            }
+            if (existing.status === "in_flight" || !existing.response) {
+                const retryAfter = Math.max(1, Math.ceil((existing.expiresAt - Date.now()) / 1000));
+                return errorResponse(`A request with this ${header} is already in progress`, 409, undefined, { "Retry-After": String(retryAfter) });
+            }
+            return replay(existing.response);
+        }
+
+        let response: Response;
+        try {
+            response = await next();
+        } catch (error) {
+            await store.release(storeKey);
+            throw error;
+        }
+
+        if (response.status >= 500) {
+            await store.release(storeKey);
+            return response;
+        }
+
+        const body = new Uint8Array(await response.arrayBuffer());
+        await store.complete(
+            storeKey,
+            requestFingerprint,
+            { status: response.status, headers: [...response.headers], body: bytesToBase64Url(body) },
+            ttlSeconds,
+        );
+
+        return new Response(body.byteLength > 0 ? body : null, { status: response.status, statusText: response.statusText, headers: response.headers });
+    };
+}
@@ -0,0 +1,37 @@
+/**
+ * Memory-based Idempotency Store
+ *
+ * For development and tests only. Not suitable for production with multiple Worker instances.
+ */
+
+import type { IdempotencyRecord, IdempotencyStore, StoredResponse } from "./types";
+
+/**
+ * Create an in-memory idempotency store
+ *
+ * ⚠️ WARNING: Records are not shared across Cloudflare Worker instances and
+ * are lost on cold starts. Use the cache or D1 store in production.
+ */
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+    const records = new Map<string, IdempotencyRecord>();
+
+    return {
+        async begin(key: string, fingerprint: string, lockSeconds: number): Promise<IdempotencyRecord | null> {
+            const existing = records.get(key);
+            if (existing && existing.expiresAt > Date.now()) {
+                return existing;
+            }
+
+            records.set(key, { status: "in_flight", fingerprint, expiresAt: Date.now() + lockSeconds * 1000 });
+            return null;
+        },
+
+        async complete(key: string, fingerprint: string, response: StoredResponse, ttlSeconds: number): Promise<void> {
+            records.set(key, { status: "completed", fingerprint, expiresAt: Date.now() + ttlSeconds * 1000, response });
+        },
+
+        async release(key: string): Promise<void> {
+            records.delete(key);
+        },
+    };
+}
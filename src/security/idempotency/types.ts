@@ -0,0 +1,71 @@
+/**
+ * Idempotency Types
+ *
+ * Pluggable storage for Idempotency-Key records.
+ */
+
+import type { RequestContext } from "../../core/types";
+
+/**
+ * Response captured for replay
+ */
+export interface StoredResponse {
+    status: number;
+    headers: [string, string][];
+    /** Base64url-encoded body */
+    body: string;
+}
+
+/**
+ * State of an Idempotency-Key
+ */
+export interface IdempotencyRecord {
+    status: "in_flight" | "completed";
+    /** Hash of the method, path and body of the first request */
+    fingerprint: string;
+    /** Epoch milliseconds after which the record is ignored */
+    expiresAt: number;
+    response?: StoredResponse;
+}
+
+/**
+ * Idempotency store interface
+ * Implement this to create custom storage backends
+ */
+export interface IdempotencyStore {
+    /**
+     * Claim a key for an in-flight request
+     * Returns null when the claim succeeded, otherwise the record already holding the key
+     */
+    begin(key: string, fingerprint: string, lockSeconds: number): Promise<IdempotencyRecord | null>;
+
+    /**
+     * Save the response of a claimed key
+     */
+    complete(key: string, fingerprint: string, response: StoredResponse, ttlSeconds: number): Promise<void>;
+
+    /**
+     * Release a claim so the request can be retried
+     */
+    release(key: string): Promise<void>;
+}
+
+/**
+ * Idempotency middleware options
+ */
+export interface IdempotencyOptions {
+    /** Store, or a function creating one from the request (e.g. from a D1 binding in `ctx.env`) */
+    store: IdempotencyStore | ((context: RequestContext) => IdempotencyStore);
+    /** Request header carrying the key (default: "Idempotency-Key") */
+    header?: string;
+    /** Methods the middleware applies to (default: POST, PATCH) */
+    methods?: string[];
+    /** Respond 400 when an applicable request has no key (default: false) */
+    required?: boolean;
+    /** How long completed responses are replayed, in seconds (default: 86400) */
+    ttlSeconds?: number;
+    /** How long an in-flight claim blocks duplicates before it is considered abandoned, in seconds (default: 60) */
+    lockSeconds?: number;
+    /** Namespace keys, e.g. per user, so clients cannot collide (default: none) */
+    scope?: (context: RequestContext) => string | Promise<string>;
+}
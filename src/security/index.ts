@@ -6,6 +6,7 @@
 
 import type { Middleware, RequestContext } from "../core/types";
 import { errorResponse } from "../core/response";
+import { withProblem } from "../errors/problem";
 
 export interface RateLimitOptions {
     maxRequests: number;
@@ -74,7 +75,7 @@ export function rateLimit(options: RateLimitOptions): Middleware {
         const retryAfter = Math.ceil((record.resetAt - now) / 1000);
 
         if (record.count > options.maxRequests) {
-            return new Response(JSON.stringify({ error: "Rate limit exceeded" }), {
+            const response = new Response(JSON.stringify({ error: "Rate limit exceeded" }), {
                 status: 429,
                 headers: {
                     "Content-Type": "application/json",
@@ -84,6 +85,7 @@ export function rateLimit(options: RateLimitOptions): Middleware {
                     "X-RateLimit-Reset": String(Math.floor(record.resetAt / 1000)),
                 },
             });
+            return withProblem(response, { status: 429, detail: "Rate limit exceeded", retryAfter: Math.max(retryAfter, 1) });
         }
 
         // Stash headers for successful responses via state (optional consumer)
@@ -0,0 +1,159 @@
+/**
+ * Services Module
+ *
+ * Provides createServices() - a typed dependency container. Factories are
+ * registered once per app and resolved lazily from `env` the first time a
+ * handler reads `ctx.services.<name>`.
+ */
+
+import { ConfigError } from "../errors/index";
+
+/**
+ * How long a resolved service instance is reused
+ *
+ * - `singleton`: one instance for the container, built from the first env it sees
+ * - `isolate`: one instance per `env` object, i.e. per Worker isolate in production
+ * - `request`: a fresh instance for every request
+ */
+export type ServiceLifetime = "singleton" | "isolate" | "request";
+
+/**
+ * Builds a service. `services` resolves other registered services lazily, but only those
+ * that live at least as long; `request` is the current request, for `request` lifetimes only.
+ */
+export type ServiceFactory<Env, Services, T> = (context: { env: Env; services: Services; request?: Request }) => T;
+
+export interface ServiceOptions {
+    /** Instance lifetime (default: "isolate") */
+    lifetime?: ServiceLifetime;
+}
+
+/**
+ * Typed service container. Each register() call widens the container type.
+ */
+export interface ServiceContainer<Env extends Record<string, unknown> = Record<string, unknown>, Services extends object = {}> {
+    register<Name extends string, T>(
+        name: Name,
+        factory: ServiceFactory<Env, Services, T>,
+        options?: ServiceOptions,
+    ): ServiceContainer<Env, { [K in keyof Services | Name]: K extends Name ? T : K extends keyof Services ? Services[K] : never }>;
+    /** Create a lazily resolving view of every service for one env and request */
+    scope(env: Env, request?: Request): Services;
+    /** Registered service names */
+    readonly names: string[];
+}
+
+interface Registration<Env> {
+    factory: ServiceFactory<Env, object, unknown>;
+    lifetime: ServiceLifetime;
+}
+
+/** Longer-lived services may only depend on services that outlive them */
+const LIFETIME_RANK: Record<ServiceLifetime, number> = { request: 0, isolate: 1, singleton: 2 };
+
+/**
+ * Create a service container
+ *
+ * @example
+ * ```typescript
+ * const services = createServices<Env>()
+ *   .register('db', ({ env }) => createDatabase({ binding: env.DB }))
+ *   .register('cache', ({ env }) => createCache({ binding: env.CACHE }))
+ *   .register('users', ({ services }) => new UserRepository(services.db, services.cache), { lifetime: 'request' });
+ *
+ * const app = createApp({ services });
+ *
+ * app.get('/users/:id', async (ctx) => {
+ *   const user = await ctx.services.users.find(ctx.params.id);
+ *   return jsonResponse(user);
+ * });
+ * ```
+ */
+export function createServices<Env extends Record<string, unknown> = Record<string, unknown>>(): ServiceContainer<Env> {
+    const registrations = new Map<string, Registration<Env>>();
+    const singletons = new Map<string, unknown>();
+    const isolates = new WeakMap<object, Map<string, unknown>>();
+
+    function scope(env: Env, request?: Request): object {
+        const requestInstances = new Map<string, unknown>();
+        const resolving: string[] = [];
+        const views = new Map<ServiceLifetime, object>();
+
+        const cacheFor = (lifetime: ServiceLifetime): Map<string, unknown> => {
+            if (lifetime === "singleton") return singletons;
+            if (lifetime === "request") return requestInstances;
+            let cache = isolates.get(env);
+            if (!cache) {
+                cache = new Map();
+                isolates.set(env, cache);
+            }
+            return cache;
+        };
+
+        const resolve = (name: string, registration: Registration<Env>): unknown => {
+            const cache = cacheFor(registration.lifetime);
+            if (cache.has(name)) {
+                return cache.get(name);
+            }
+            if (resolving.includes(name)) {
+                throw new ConfigError(`Circular service dependency: ${[...resolving, name].join(" -> ")}`, name);
+            }
+
+            resolving.push(name);
+            try {
+                const isRequest = registration.lifetime === "request";
+                const instance = registration.factory({ env, services: view(registration.lifetime), ...(isRequest && { request }) });
+                cache.set(name, instance);
+                return instance;
+            } finally {
+                resolving.pop();
+            }
+        };
+
+        /** Services as seen by a consumer of `lifetime`; shorter-lived ones throw instead of being captured */
+        const view = (lifetime: ServiceLifetime): object => {
+            let services = views.get(lifetime);
+            if (services) return services;
+            services = {};
+            for (const [name, registration] of registrations) {
+                Object.defineProperty(services, name, {
+                    enumerable: true,
+                    get: () => {
+                        if (LIFETIME_RANK[registration.lifetime] < LIFETIME_RANK[lifetime]) {
+                            throw new ConfigError(`A ${lifetime} service cannot depend on the shorter-lived ${registration.lifetime} service "${name}"`, name);
+                        }
+                        return resolve(name, registration);
+                    },
+                });
+            }
+            views.set(lifetime, services);
+            return services;
+        };
+
+        return view("request");
+    }
+
+    function container<Services extends object>(): ServiceContainer<Env, Services> {
+        return {
+            register<Name extends string, T>(name: Name, factory: ServiceFactory<Env, Services, T>, options: ServiceOptions = {}) {
+                if (registrations.has(name)) {
+                    throw new ConfigError(`Service "${name}" is already registered`, name);
+                }
+                // Views define a getter for every registered name, so a factory sees `Services`
+                const build: ServiceFactory<Env, object, unknown> = (context) => factory({ ...context, services: context.services as Services });
+                registrations.set(name, { factory: build, lifetime: options.lifetime ?? "isolate" });
+                return container<{ [K in keyof Services | Name]: K extends Name ? T : K extends keyof Services ? Services[K] : never }>();
+            },
+
+            scope(env: Env, request?: Request): Services {
+                return scope(env, request) as Services;
+            },
+
+            get names() {
+                return [...registrations.keys()];
+            },
+        };
+    }
+
+    return container<{}>();
+}
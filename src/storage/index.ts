@@ -195,10 +195,70 @@ export function createStorage(config: StorageConfig): StorageService {
         await validateFile(metadata, validationOptions);
     }
 
+    /**
+     * Store a stream of unknown length. R2's put() rejects such streams, so a body
+     * that fits in one part is buffered and put whole; a larger one goes up as a
+     * multipart upload of equal `partSize` parts, keeping at most one part in memory.
+     */
+    async function putStream(key: string, stream: ReadableStream<Uint8Array>, options?: UploadOptions) {
+        const partSize = multipartConfig.partSize;
+        const reader = stream.getReader();
+        let leftover: Uint8Array | null = null;
+
+        const readPart = async (): Promise<Uint8Array> => {
+            const chunks: Uint8Array[] = [];
+            let size = 0;
+            while (size < partSize) {
+                if (!leftover) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    leftover = value;
+                }
+                const take = Math.min(leftover.byteLength, partSize - size);
+                chunks.push(leftover.subarray(0, take));
+                size += take;
+                leftover = take < leftover.byteLength ? leftover.subarray(take) : null;
+            }
+            const part = new Uint8Array(size);
+            let offset = 0;
+            for (const chunk of chunks) {
+                part.set(chunk, offset);
+                offset += chunk.byteLength;
+            }
+            return part;
+        };
+
+        const putOptions = {
+            httpMetadata: options?.contentType ? { contentType: options.contentType } : undefined,
+            customMetadata: options?.customMetadata,
+        };
+
+        let upload: R2MultipartUpload | null = null;
+        try {
+            const first = await readPart();
+            if (first.byteLength < partSize) {
+                return await bucket.put(key, first, putOptions);
+            }
+
+            upload = await bucket.createMultipartUpload(key, putOptions);
+            const parts: Array<{ partNumber: number; etag: string }> = [];
+            for (let part = first; part.byteLength > 0; part = await readPart()) {
+                const uploaded = await upload.uploadPart(parts.length + 1, part);
+                parts.push({ partNumber: uploaded.partNumber, etag: uploaded.etag });
+            }
+            return await upload.complete(parts);
+        } catch (error) {
+            void reader.cancel(error).catch(() => undefined);
+            await upload?.abort().catch(() => undefined);
+            throw error;
+        }
+    }
+
     return {
         /**
          * Upload via streaming (memory-efficient)
-         * Recommended for files < 100MB
+         * Recommended for files < 100MB. Streams of any length are accepted: bodies
+         * larger than one multipart part are sent as a multipart upload.
          */
         async uploadStream(key: string, stream: ReadableStream<Uint8Array>, options?: UploadOptions): Promise<UploadResult> {
             try {
@@ -216,10 +276,7 @@ export function createStorage(config: StorageConfig): StorageService {
                     }
                 }
 
-                const object = await bucket.put(key, stream, {
-                    httpMetadata: options?.contentType ? { contentType: options.contentType } : undefined,
-                    customMetadata: options?.customMetadata,
-                });
+                const object = await putStream(key, stream, options);
 
                 return {
                     success: true,
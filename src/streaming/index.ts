@@ -384,6 +384,7 @@ export function pipeStream(stream: ReadableStream | null, contentType: string, h
     return new Response(stream, {
         headers: {
             "Content-Type": contentType,
+            "X-Accel-Buffering": "no",
             ...headers,
         },
     });
@@ -364,7 +364,9 @@ export interface MockD1PreparedStatement {
  * Create an in-memory D1 mock
  *
  * Provides basic SQL-like operations for testing. Full SQL parsing is not
- * implemented - it uses pattern matching for common operations.
+ * implemented - it uses pattern matching for common operations. CREATE and
+ * DROP TABLE are tracked, and DELETE understands `column = ?` filters, which is
+ * enough to run createMigrator() against it.
  *
  * @returns MockD1Database that implements the D1 interface
  *
@@ -387,6 +389,16 @@ export function createMockD1(): MockD1Database {
     };
 
     const parseQuery = (query: string) => {
+        const createMatch = query.match(/^\s*CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(\w+)/i);
+        if (createMatch) {
+            return { type: "CREATE", table: createMatch[1] };
+        }
+
+        const dropMatch = query.match(/^\s*DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?(\w+)/i);
+        if (dropMatch) {
+            return { type: "DROP", table: dropMatch[1] };
+        }
+
         const selectMatch = query.match(/SELECT\s+(.+?)\s+FROM\s+(\w+)/i);
         if (selectMatch) {
             return { type: "SELECT", columns: selectMatch[1].split(",").map((c) => c.trim()), table: selectMatch[2] };
@@ -454,6 +466,30 @@ export function createMockD1(): MockD1Database {
                     };
                 }
 
+                if (parsed.type === "CREATE" && !tables.has(parsed.table)) {
+                    tables.set(parsed.table, new Map());
+                }
+
+                if (parsed.type === "DROP") {
+                    tables.delete(parsed.table);
+                }
+
+                if (parsed.type === "DELETE" && "where" in parsed) {
+                    const table = tables.get(parsed.table);
+                    // Only `column = ?` conditions joined by AND are understood; anything else deletes nothing
+                    const conditions = parsed.where ? parsed.where.split(/\s+AND\s+/i).map((condition) => condition.trim().match(/^(\w+)\s*=\s*\?$/)) : [];
+                    let changes = 0;
+                    if (table && conditions.every(Boolean)) {
+                        for (const [key, row] of table) {
+                            if (conditions.every((condition, i) => String(row[condition![1]!]) === String(boundValues[i]))) {
+                                table.delete(key);
+                                changes++;
+                            }
+                        }
+                    }
+                    return { results: [], success: true, meta: { duration: 0, changes } };
+                }
+
                 return {
                     results: [],
                     success: true,
@@ -543,16 +579,32 @@ export interface MockR2Object {
     json<T>(): Promise<T>;
 }
 
+export interface MockR2MultipartUpload {
+    key: string;
+    uploadId: string;
+    uploadPart(partNumber: number, value: string | ArrayBuffer | ArrayBufferView): Promise<{ partNumber: number; etag: string }>;
+    complete(parts: Array<{ partNumber: number; etag: string }>): Promise<MockR2Object>;
+    abort(): Promise<void>;
+}
+
 export interface MockR2Bucket {
     get(key: string): Promise<MockR2Object | null>;
+    /** Like R2, rejects a ReadableStream unless it is the body of an object read from this mock (a known length) */
     put(
         key: string,
-        value: string | ArrayBuffer | ReadableStream,
+        value: string | ArrayBuffer | ArrayBufferView | ReadableStream,
         options?: {
             httpMetadata?: Record<string, string>;
             customMetadata?: Record<string, string>;
         },
     ): Promise<MockR2Object>;
+    createMultipartUpload(
+        key: string,
+        options?: {
+            httpMetadata?: Record<string, string>;
+            customMetadata?: Record<string, string>;
+        },
+    ): Promise<MockR2MultipartUpload>;
     delete(key: string): Promise<void>;
     list(options?: { prefix?: string; limit?: number; cursor?: string }): Promise<{
         objects: MockR2Object[];
@@ -581,6 +633,13 @@ export interface MockR2Bucket {
 export function createMockR2(): MockR2Bucket {
     const objects = new Map<string, { data: Uint8Array; metadata: Record<string, unknown> }>();
     const calls: { method: string; args: unknown[] }[] = [];
+    const knownLength = new WeakSet<ReadableStream>();
+
+    const toBytes = (value: string | ArrayBuffer | ArrayBufferView): Uint8Array => {
+        if (value instanceof ArrayBuffer) return new Uint8Array(value);
+        if (ArrayBuffer.isView(value)) return new Uint8Array(value.buffer, value.byteOffset, value.byteLength).slice();
+        return new TextEncoder().encode(String(value));
+    };
 
     const recordCall = (method: string, args: unknown[]) => {
         calls.push({ method, args: [...args] });
@@ -593,6 +652,7 @@ export function createMockR2(): MockR2Bucket {
                 controller.close();
             },
         });
+        knownLength.add(body);
 
         return {
             key,
@@ -642,13 +702,14 @@ export function createMockR2(): MockR2Bucket {
             return createR2Object(key, obj.data, obj.metadata);
         },
 
-        async put(key: string, value: unknown, options = {}) {
+        async put(key: string, value: string | ArrayBuffer | ArrayBufferView | ReadableStream, options = {}) {
             recordCall("put", [key, value, options]);
             let data: Uint8Array;
 
-            if (value instanceof ArrayBuffer) {
-                data = new Uint8Array(value);
-            } else if (value instanceof ReadableStream) {
+            if (value instanceof ReadableStream) {
+                if (!knownLength.has(value)) {
+                    throw new TypeError("Provided readable stream must have a known length (request/response body or readable half of FixedLengthStream)");
+                }
                 const reader = value.getReader();
                 const chunks: Uint8Array[] = [];
                 while (true) {
@@ -664,13 +725,50 @@ export function createMockR2(): MockR2Bucket {
                     offset += chunk.length;
                 }
             } else {
-                data = new TextEncoder().encode(String(value));
+                data = toBytes(value);
             }
 
             objects.set(key, { data, metadata: options });
             return createR2Object(key, data, options);
         },
 
+        async createMultipartUpload(key: string, options = {}) {
+            recordCall("createMultipartUpload", [key, options]);
+            const uploadId = crypto.randomUUID();
+            const parts = new Map<number, { etag: string; data: Uint8Array }>();
+
+            return {
+                key,
+                uploadId,
+                async uploadPart(partNumber, value) {
+                    recordCall("uploadPart", [key, partNumber]);
+                    const etag = crypto.randomUUID();
+                    parts.set(partNumber, { etag, data: toBytes(value) });
+                    return { partNumber, etag };
+                },
+                async complete(uploaded) {
+                    recordCall("completeMultipartUpload", [key, uploaded]);
+                    const chunks = uploaded.map(({ partNumber, etag }) => {
+                        const part = parts.get(partNumber);
+                        if (!part || part.etag !== etag) throw new Error(`Unknown part ${partNumber} for multipart upload ${uploadId}`);
+                        return part.data;
+                    });
+                    const data = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+                    let offset = 0;
+                    for (const chunk of chunks) {
+                        data.set(chunk, offset);
+                        offset += chunk.byteLength;
+                    }
+                    objects.set(key, { data, metadata: options });
+                    return createR2Object(key, data, options);
+                },
+                async abort() {
+                    recordCall("abortMultipartUpload", [key]);
+                    parts.clear();
+                },
+            };
+        },
+
         async delete(key: string) {
             recordCall("delete", [key]);
             objects.delete(key);
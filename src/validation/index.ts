@@ -6,6 +6,7 @@
  */
 
 import type { RequestContext, Middleware } from "../core/types";
+import { withProblem } from "../errors/problem";
 
 /**
  * Extended request context with validation
@@ -401,7 +402,7 @@ export function createValidator(config: ValidatorConfig): Middleware {
         }
 
         if (errors.length > 0) {
-            return new Response(
+            const response = new Response(
                 JSON.stringify({
                     error: "Validation failed",
                     details: errors,
@@ -411,6 +412,7 @@ export function createValidator(config: ValidatorConfig): Middleware {
                     headers: { "Content-Type": "application/json" },
                 },
             );
+            return withProblem(response, { status: 422, detail: "Validation failed", errors });
         }
     };
 }
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { createApp, accessControl, jsonResponse, ConfigError } from "../src/index";
+import type { AccessControlOptions } from "../src/index";
+import { createMockExecutionContext, createMockKV } from "../src/testing/index";
+
+function guardedApp(options: AccessControlOptions) {
+    const app = createApp();
+    app.use(accessControl(options));
+    app.get("/*", (ctx) => jsonResponse({ path: ctx.url.pathname }));
+    app.post("/*", () => jsonResponse({ ok: true }));
+
+    return async (path: string, client: { ip?: string; country?: string; asn?: number; method?: string } = {}, env: Record<string, unknown> = {}) => {
+        const request = new Request(`https://example.com${path}`, {
+            method: client.method ?? "GET",
+            headers: client.ip ? { "CF-Connecting-IP": client.ip } : {},
+        });
+        Object.defineProperty(request, "cf", { value: { country: client.country, asn: client.asn } });
+        return (await app.fetch(request, env, createMockExecutionContext())).status;
+    };
+}
+
+describe("accessControl", () => {
+    it("matches IPv4 and IPv6 CIDR ranges", async () => {
+        const status = guardedApp({ allowIps: ["203.0.113.0/24", "2001:db8::/32", "198.51.100.7"], denyIps: ["203.0.113.128/25"] });
+
+        expect(await status("/", { ip: "203.0.113.5" })).toBe(200);
+        expect(await status("/", { ip: "203.0.113.200" })).toBe(403);
+        expect(await status("/", { ip: "198.51.100.7" })).toBe(200);
+        expect(await status("/", { ip: "198.51.100.8" })).toBe(403);
+        expect(await status("/", { ip: "2001:db8:1234::1" })).toBe(200);
+        expect(await status("/", { ip: "2001:db9::1" })).toBe(403);
+        expect(await status("/", { ip: "::ffff:203.0.113.9" })).toBe(200);
+        expect(await status("/", {})).toBe(403);
+    });
+
+    it("applies country and ASN rules from request.cf", async () => {
+        const status = guardedApp({ allowCountries: ["us", "CA"], denyAsns: [64500] });
+
+        expect(await status("/", { country: "US" })).toBe(200);
+        expect(await status("/", { country: "FR" })).toBe(403);
+        expect(await status("/", { country: "CA", asn: 64500 })).toBe(403);
+    });
+
+    it("supports per-route overrides", async () => {
+        const status = guardedApp({
+            denyCountries: ["KP"],
+            routes: [
+                { match: "/health", rules: {} },
+                { match: "/admin/*", rules: { allowIps: ["10.0.0.0/8"] }, extend: true },
+                { match: /^\/webhooks\//, methods: ["POST"], rules: { allowAsns: [13335] } },
+            ],
+        });
+
+        expect(await status("/health", { country: "KP" })).toBe(200);
+        expect(await status("/admin/users", { ip: "10.1.2.3", country: "US" })).toBe(200);
+        expect(await status("/admin/users", { ip: "10.1.2.3", country: "KP" })).toBe(403);
+        expect(await status("/admin/users", { ip: "192.0.2.1", country: "US" })).toBe(403);
+        expect(await status("/webhooks/stripe", { method: "POST", asn: 13335 })).toBe(200);
+        expect(await status("/webhooks/stripe", { method: "POST", asn: 64500 })).toBe(403);
+        expect(await status("/webhooks/stripe", { country: "US" })).toBe(200);
+    });
+
+    it("loads lists from KV and keeps the last good lists", async () => {
+        const kv = createMockKV();
+        await kv.put("access-rules", JSON.stringify({ denyIps: ["192.0.2.0/24"] }));
+        const status = guardedApp({ denyCountries: ["KP"], kv: { binding: (env) => env.ACCESS as never, refreshSeconds: 0 } });
+        const env = { ACCESS: kv };
+
+        expect(await status("/", { ip: "192.0.2.10" }, env)).toBe(403);
+        expect(await status("/", { ip: "198.51.100.1", country: "KP" }, env)).toBe(403);
+
+        await kv.put("access-rules", JSON.stringify({ denyIps: ["not-an-ip"] }));
+        expect(await status("/", { ip: "192.0.2.10" }, env)).toBe(403);
+
+        await kv.put("access-rules", JSON.stringify({}));
+        expect(await status("/", { ip: "192.0.2.10" }, env)).toBe(200);
+    });
+
+    it("rejects invalid static entries and supports custom denial responses", async () => {
+        expect(() => accessControl({ allowIps: ["10.0.0.0/33"] })).toThrow(ConfigError);
+        expect(() => accessControl({ denyIps: ["1:2:3"] })).toThrow(ConfigError);
+
+        const app = createApp();
+        app.use(accessControl({ denyCountries: ["KP"], onDenied: (_ctx, reason) => new Response(reason, { status: 451 }) }));
+        app.get("/", () => jsonResponse({}));
+        const request = new Request("https://example.com/");
+        Object.defineProperty(request, "cf", { value: { country: "KP" } });
+        const response = await app.fetch(request, {}, createMockExecutionContext());
+        expect(response.status).toBe(451);
+        expect(await response.text()).toBe("country");
+    });
+});
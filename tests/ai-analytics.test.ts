@@ -1,6 +1,7 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, type Mock } from "vitest";
 import { createAnalytics } from "../src/analytics/index";
-import { createAI } from "../src/ai/index";
+import { createAI, type Ai, type AiRunOptions } from "../src/ai/index";
+import { createTraceContext, formatTraceparent } from "../src/core/trace";
 
 describe("createAnalytics", () => {
     it("tracks events, counters, timings, and requests", () => {
@@ -28,16 +29,23 @@ describe("createAnalytics", () => {
     });
 });
 
+type AiRun = (model: string, inputs: unknown, options?: AiRunOptions) => Promise<unknown>;
+
+/** Workers AI binding backed by a mocked run(); the mock returns whatever the test needs */
+function aiBinding(run: Mock<AiRun>): Ai {
+    return { run } as unknown as Ai;
+}
+
 describe("createAI", () => {
     it("text() and embed() use the Workers AI binding", async () => {
-        const run = vi.fn(async (model: string, inputs: unknown) => {
+        const run = vi.fn<AiRun>(async (model, inputs) => {
             if (String(model).includes("bge")) {
                 return { data: [{ embedding: [0.1, 0.2] }, { embedding: [0.3, 0.4] }] };
             }
             return { response: `echo:${(inputs as { messages: Array<{ content: string }> }).messages[0].content}` };
         });
 
-        const ai = createAI({ binding: { run } });
+        const ai = createAI({ binding: aiBinding(run) });
         expect(await ai.text("hello")).toBe("echo:hello");
         expect(await ai.embed(["a", "b"])).toEqual([
             [0.1, 0.2],
@@ -47,14 +55,14 @@ describe("createAI", () => {
     });
 
     it("passes gateway options through run()", async () => {
-        const run = vi.fn(async () => ({ response: "ok" }));
+        const run = vi.fn<AiRun>(async () => ({ response: "ok" }));
         const ai = createAI({
-            binding: { run },
+            binding: aiBinding(run),
             gateway: { id: "gw-1", cacheKey: "ck" },
         });
 
         await ai.run("@cf/meta/llama-3.1-8b-instruct", { prompt: "x" });
-        expect(run.mock.calls[0][2]).toMatchObject({
+        expect(run.mock.calls[0]![2]).toMatchObject({
             gateway: { id: "gw-1" },
             cacheKey: "ck",
         });
@@ -67,10 +75,35 @@ describe("createAI", () => {
                 controller.close();
             },
         });
-        const run = vi.fn(async () => stream);
-        const ai = createAI({ binding: { run } });
+        const run = vi.fn<AiRun>(async () => stream);
+        const ai = createAI({ binding: aiBinding(run) });
         const result = await ai.stream("story");
         expect(result).toBe(stream);
-        expect(run.mock.calls[0][2]).toMatchObject({ stream: true });
+        expect(run.mock.calls[0]![2]).toMatchObject({ stream: true });
+    });
+
+    it("passes and honors abort signals", async () => {
+        const run = vi.fn<AiRun>(() => new Promise(() => {}));
+        const controller = new AbortController();
+        const ai = createAI({ binding: aiBinding(run) }).withSignal(controller.signal);
+
+        const pending = ai.text("hello");
+        expect(run.mock.calls[0]![2]).toMatchObject({ signal: controller.signal });
+        controller.abort(new DOMException("Request timed out", "TimeoutError"));
+        await expect(pending).rejects.toMatchObject({ name: "TimeoutError" });
+        await expect(ai.embed("again")).rejects.toMatchObject({ name: "TimeoutError" });
+        expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it("sends trace headers with gateway invocations", async () => {
+        const run = vi.fn<AiRun>(async () => ({ response: "ok" }));
+        const trace = createTraceContext(new Request("https://example.com", { headers: { "X-Request-Id": "req-9" } }));
+        const ai = createAI({ binding: aiBinding(run), gateway: { id: "gw" } }).withTrace(trace);
+
+        await ai.run("@cf/model", {}, { extraHeaders: { "X-Tenant": "acme" } });
+        expect(run.mock.calls[0]![2]).toMatchObject({
+            gateway: { id: "gw" },
+            extraHeaders: { traceparent: formatTraceparent(trace), "X-Request-Id": "req-9", "X-Tenant": "acme" },
+        });
     });
 });
@@ -1,6 +1,7 @@
-import { describe, it, expect } from "vitest";
-import { createApp, createAuth, requireAuth, jsonResponse } from "../src/index";
-import { createTestApp } from "../src/testing/index";
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { createApp, createAuth, requireAuth, csrfProtection, jsonResponse, bodyParser } from "../src/index";
+import type { User } from "../src/index";
+import { createTestApp, createMockExecutionContext } from "../src/testing/index";
 
 const SECRET = "a".repeat(32);
 
@@ -57,4 +58,142 @@ describe("auth", () => {
         expect(res.status).toBe(200);
         expect(await res.json()).toEqual({ user: { id: "u1", email: "u@example.com" } });
     });
+
+    it("exposes the user through typed ctx.get()", async () => {
+        const auth = createAuth({ secret: SECRET });
+        const { token } = await auth.createToken({ id: "u1", email: "u@example.com" });
+
+        const app = createApp();
+        app.get("/me", requireAuth(auth), (ctx) => {
+            expectTypeOf(ctx.get("user")).toEqualTypeOf<User>();
+            return jsonResponse({ id: ctx.get("user").id });
+        });
+
+        const res = await createTestApp(app).get("/me", { headers: { Authorization: `Bearer ${token}` } });
+        expect(await res.json()).toEqual({ id: "u1" });
+    });
+});
+
+describe("csrfProtection", () => {
+    const secret = "csrf-secret-that-is-long-enough-1234";
+
+    function send(app: ReturnType<typeof createApp>, method: string, path: string, headers: Record<string, string> = {}, body?: BodyInit) {
+        return app.fetch(new Request(`https://example.com${path}`, { method, headers, body }), {}, createMockExecutionContext());
+    }
+
+    function buildApp(options: Parameters<typeof csrfProtection>[0]) {
+        const app = createApp();
+        app.use(csrfProtection(options));
+        app.get("/form", (ctx) => jsonResponse({ token: ctx.state.csrfToken }));
+        app.post("/transfer", () => jsonResponse({ ok: true }));
+        app.post("/webhooks/stripe", () => jsonResponse({ ok: true }));
+        return app;
+    }
+
+    it("issues and verifies signed double-submit tokens", async () => {
+        const app = buildApp({ secret, exempt: [/^\/webhooks\//] });
+
+        const form = await send(app, "GET", "/form");
+        const setCookie = form.headers.get("Set-Cookie")!;
+        expect(setCookie).toMatch(/^csrf_token=[\w-]+\.[\w-]+; Path=\/; SameSite=Lax; Secure$/);
+        const { token } = (await form.json()) as { token: string };
+        expect(setCookie).toContain(token);
+
+        const cookie = `csrf_token=${token}`;
+        expect((await send(app, "POST", "/transfer", { Cookie: cookie, "X-CSRF-Token": token })).status).toBe(200);
+        expect((await send(app, "POST", "/transfer", { Cookie: cookie })).status).toBe(403);
+        expect((await send(app, "POST", "/transfer", { Cookie: "csrf_token=forged.sig", "X-CSRF-Token": "forged.sig" })).status).toBe(403);
+
+        const formBody = new URLSearchParams({ _csrf: token, amount: "10" });
+        const viaForm = await send(app, "POST", "/transfer", { Cookie: cookie, "Content-Type": "application/x-www-form-urlencoded" }, formBody);
+        expect(viaForm.status).toBe(200);
+
+        expect((await send(app, "POST", "/webhooks/stripe")).status).toBe(200);
+        expect((await send(app, "GET", "/form", { Cookie: cookie })).headers.get("Set-Cookie")).toBeNull();
+    });
+
+    it("rejects foreign origins and cross-site fetches", async () => {
+        const app = buildApp({ trustedOrigins: ["https://admin.example.com"] });
+        const headers = { Cookie: "csrf_token=abc", "X-CSRF-Token": "abc" };
+
+        expect((await send(app, "POST", "/transfer", { ...headers, Origin: "https://example.com" })).status).toBe(200);
+        expect((await send(app, "POST", "/transfer", { ...headers, Origin: "https://admin.example.com" })).status).toBe(200);
+
+        const foreign = await send(app, "POST", "/transfer", { ...headers, Origin: "https://evil.example" });
+        expect(foreign.status).toBe(403);
+        expect(await foreign.json()).toMatchObject({ error: "Cross-origin request blocked" });
+
+        expect((await send(app, "POST", "/transfer", { ...headers, Referer: "https://evil.example/page" })).status).toBe(403);
+        expect((await send(app, "POST", "/transfer", { ...headers, "Sec-Fetch-Site": "cross-site" })).status).toBe(403);
+        expect((await send(app, "POST", "/transfer", { ...headers, "Sec-Fetch-Site": "same-origin" })).status).toBe(200);
+    });
+
+    it("binds synchronizer tokens to the session cookie", async () => {
+        expect(() => csrfProtection({ mode: "synchronizer" })).toThrow(/requires a secret/);
+
+        const app = buildApp({ mode: "synchronizer", secret, sessionCookie: "sid" });
+
+        const anonymous = await send(app, "GET", "/form");
+        expect(anonymous.headers.get("Set-Cookie")).toBeNull();
+        expect(await anonymous.json()).toEqual({});
+
+        const { token } = (await (await send(app, "GET", "/form", { Cookie: "sid=session-a" })).json()) as { token: string };
+        expect((await send(app, "POST", "/transfer", { Cookie: "sid=session-a", "X-CSRF-Token": token })).status).toBe(200);
+        expect((await send(app, "POST", "/transfer", { Cookie: "sid=session-b", "X-CSRF-Token": token })).status).toBe(403);
+    });
+
+    it("reads form tokens from a bounded prefix of the body", async () => {
+        const app = createApp();
+        app.use(csrfProtection({ maxFormSize: 1024 }));
+        app.post("/upload", bodyParser(), (ctx) => jsonResponse({ size: (ctx.state.body as { file: File }).file.size }));
+        const post = (body: BodyInit, headers: Record<string, string> = {}) => send(app, "POST", "/upload", { Cookie: "csrf_token=abc", ...headers }, body);
+        const upload = (fields: Array<[string, string | Blob]>) => {
+            const form = new FormData();
+            for (const [name, value] of fields) form.append(name, value);
+            return form;
+        };
+        const file = new Blob(["x".repeat(4096)]);
+
+        // The token precedes the file, so the file still reaches bodyParser whole
+        const ok = await post(
+            upload([
+                ["_csrf", "abc"],
+                ["file", file],
+            ]),
+        );
+        expect(ok.status).toBe(200);
+        expect(await ok.json()).toEqual({ size: 4096 });
+
+        // Scanning stops at the first file and at maxFormSize
+        expect(
+            (
+                await post(
+                    upload([
+                        ["file", file],
+                        ["_csrf", "abc"],
+                    ]),
+                )
+            ).status,
+        ).toBe(403);
+        expect(
+            (
+                await post(
+                    upload([
+                        ["note", "y".repeat(2048)],
+                        ["_csrf", "abc"],
+                    ]),
+                )
+            ).status,
+        ).toBe(403);
+        const longForm = new URLSearchParams({ note: "y".repeat(2048), _csrf: "abc" });
+        expect((await post(longForm, { "Content-Type": "application/x-www-form-urlencoded" })).status).toBe(403);
+
+        // A body parser registered first has already read the form
+        const parsedFirst = createApp();
+        parsedFirst.use(bodyParser());
+        parsedFirst.use(csrfProtection());
+        parsedFirst.post("/transfer", () => jsonResponse({ ok: true }));
+        const viaParsed = await send(parsedFirst, "POST", "/transfer", { Cookie: "csrf_token=abc" }, longForm);
+        expect(viaParsed.status).toBe(200);
+    });
 });
@@ -0,0 +1,210 @@
+import { describe, it, expect } from "vitest";
+import { createApp, bodyParser, createStorage, jsonResponse } from "../src/index";
+import type { FormBody, StoredFile } from "../src/index";
+import { createMockExecutionContext, createMockR2 } from "../src/testing/index";
+
+const boundary = "----kitBoundary7MA4YWxk";
+
+function multipart(parts: Array<{ name: string; value: string; filename?: string; type?: string; encodedName?: boolean }>): string {
+    const body = parts
+        .map((part) => {
+            let disposition = `form-data; name="${part.name}"`;
+            if (part.filename !== undefined) {
+                disposition += part.encodedName ? `; filename*=UTF-8''${encodeURIComponent(part.filename)}` : `; filename="${part.filename}"`;
+            }
+            const type = part.type ? `\r\nContent-Type: ${part.type}` : "";
+            return `--${boundary}\r\nContent-Disposition: ${disposition}${type}\r\n\r\n${part.value}\r\n`;
+        })
+        .join("");
+    return `preamble\r\n${body}--${boundary}--\r\n`;
+}
+
+/** Stream a string in tiny chunks so delimiters straddle chunk boundaries */
+function chunked(text: string, size = 7): ReadableStream<Uint8Array> {
+    const bytes = new TextEncoder().encode(text);
+    let offset = 0;
+    return new ReadableStream({
+        pull(controller) {
+            if (offset >= bytes.length) return controller.close();
+            controller.enqueue(bytes.slice(offset, offset + size));
+            offset += size;
+        },
+    });
+}
+
+/** createStorage() over the R2 mock, which rejects streams of unknown length like R2 does */
+function mockStorage(partSize?: number) {
+    const bucket = createMockR2();
+    const storage = createStorage({ binding: bucket as never, ...(partSize && { multipart: { partSize } }) });
+    const deleted: string[] = [];
+    return {
+        bucket,
+        deleted,
+        uploadStream: storage.uploadStream,
+        async delete(key: string) {
+            deleted.push(key);
+            return storage.delete(key);
+        },
+    };
+}
+
+async function stored(bucket: ReturnType<typeof createMockR2>, key: string) {
+    const object = await bucket.get(key);
+    return object && { body: await object.text(), contentType: object.httpMetadata.contentType };
+}
+
+function echoApp(options?: Parameters<typeof bodyParser>[0]) {
+    const app = createApp();
+    app.use(bodyParser(options));
+    app.post("/echo", (ctx) => {
+        const body = ctx.state.body;
+        if (body && typeof body === "object" && !Array.isArray(body)) {
+            const out: Record<string, unknown> = {};
+            for (const [key, value] of Object.entries(body as FormBody)) {
+                out[key] = value instanceof File ? { file: value.name, type: value.type, size: value.size } : value;
+            }
+            return jsonResponse(out);
+        }
+        return jsonResponse({ body });
+    });
+    return app;
+}
+
+function post(app: ReturnType<typeof createApp>, contentType: string, body: BodyInit) {
+    const init: RequestInit & { duplex?: string } = { method: "POST", headers: { "Content-Type": contentType }, body, duplex: "half" };
+    return app.fetch(new Request("https://example.com/echo", init), {}, createMockExecutionContext());
+}
+
+describe("bodyParser", () => {
+    it("parses urlencoded forms, text and JSON", async () => {
+        const app = echoApp();
+
+        const form = await post(app, "application/x-www-form-urlencoded", "name=Ada&tag=a&tag=b&empty=");
+        expect(await form.json()).toEqual({ name: "Ada", tag: ["a", "b"], empty: "" });
+
+        const text = await post(app, "text/plain; charset=utf-8", "event=deploy");
+        expect(await text.json()).toEqual({ body: "event=deploy" });
+
+        const json = await post(app, "application/vnd.api+json", '{"id":1}');
+        expect(await json.json()).toEqual({ id: 1 });
+
+        const invalid = await post(app, "application/json", "{nope");
+        expect(invalid.status).toBe(400);
+    });
+
+    it("enforces maxSize and skips disabled types", async () => {
+        const app = echoApp({ maxSize: 8, types: ["form"] });
+
+        const large = await post(app, "application/x-www-form-urlencoded", chunked("name=far-too-long"));
+        expect(large.status).toBe(413);
+        expect(await large.json()).toMatchObject({ error: "Request body exceeds max size of 8 bytes" });
+
+        const skipped = await post(app, "text/plain", "not parsed");
+        expect(await skipped.json()).toEqual({});
+    });
+
+    it("parses multipart fields and buffers files without storage", async () => {
+        const app = echoApp();
+        const body = multipart([
+            { name: "title", value: "Quarterly" },
+            { name: "tags", value: "a" },
+            { name: "tags", value: "b" },
+            { name: "report", value: "col1,col2\r\n1,2", filename: "résumé.csv", type: "text/csv", encodedName: true },
+            { name: "empty", value: "", filename: "" },
+        ]);
+
+        const res = await post(app, `multipart/form-data; boundary=${boundary}`, chunked(body));
+        expect(await res.json()).toEqual({
+            title: "Quarterly",
+            tags: ["a", "b"],
+            report: { file: "résumé.csv", type: "text/csv", size: 14 },
+        });
+    });
+
+    it("counts buffered files and fields against one maxSize budget", async () => {
+        const app = echoApp({ maxSize: 100 });
+        const files = Array.from({ length: 20 }, (_, i) => ({ name: "files", value: "x".repeat(90), filename: `${i}.txt` }));
+
+        const res = await post(app, `multipart/form-data; boundary=${boundary}`, chunked(multipart(files)));
+        expect(res.status).toBe(413);
+        expect(await res.json()).toMatchObject({ error: "Multipart body exceeds max size of 100 bytes" });
+
+        const fits = await post(app, `multipart/form-data; boundary=${boundary}`, chunked(multipart([{ name: "note", value: "hi" }, files[0]!])));
+        expect(fits.status).toBe(200);
+    });
+
+    it("streams multipart files into storage", async () => {
+        const storage = mockStorage();
+        const app = echoApp({ storage: () => storage, fileKey: (file) => `avatars/${file.filename}` });
+        const body = multipart([
+            { name: "user", value: "42" },
+            { name: "avatar", value: "PNGDATA--not-a-boundary", filename: "me.png", type: "image/png" },
+        ]);
+
+        const res = await post(app, `multipart/form-data; boundary="${boundary}"`, chunked(body, 5));
+        const json = (await res.json()) as { user: string; avatar: StoredFile };
+        expect(json).toEqual({
+            user: "42",
+            avatar: { field: "avatar", filename: "me.png", contentType: "image/png", key: "avatars/me.png", size: 23, etag: expect.any(String) },
+        });
+        expect(await stored(storage.bucket, "avatars/me.png")).toEqual({ body: "PNGDATA--not-a-boundary", contentType: "image/png" });
+    });
+
+    it("sends files larger than one part as an R2 multipart upload", async () => {
+        const storage = mockStorage(16);
+        const app = echoApp({ storage, fileKey: (file) => file.filename });
+        const content = "0123456789".repeat(4);
+
+        const res = await post(app, `multipart/form-data; boundary=${boundary}`, chunked(multipart([{ name: "log", value: content, filename: "big.log" }]), 5));
+        expect(((await res.json()) as { log: StoredFile }).log.size).toBe(40);
+        expect(storage.bucket._calls.filter((call) => call.method === "uploadPart").map((call) => call.args[1])).toEqual([1, 2, 3]);
+        expect((await stored(storage.bucket, "big.log"))?.body).toBe(content);
+    });
+
+    it("answers 422 when storage leaves part of a file unread", async () => {
+        const deleted: string[] = [];
+        const app = echoApp({
+            storage: {
+                async uploadStream(key: string) {
+                    return { success: true, key, size: 0, etag: "e" };
+                },
+                async delete(key: string) {
+                    deleted.push(key);
+                    return { success: true };
+                },
+            },
+            fileKey: () => "partial.txt",
+        });
+
+        const res = await post(app, `multipart/form-data; boundary=${boundary}`, multipart([{ name: "a", value: "unread", filename: "a.txt" }]));
+        expect(res.status).toBe(422);
+        expect(await res.json()).toMatchObject({ error: 'File "a.txt" was not fully stored' });
+        expect(deleted).toEqual(["partial.txt"]);
+    });
+
+    it("rejects oversized files and removes earlier uploads", async () => {
+        const storage = mockStorage();
+        const app = echoApp({ storage, maxFileSize: 10 });
+        const body = multipart([
+            { name: "a", value: "small", filename: "a.txt" },
+            { name: "b", value: "x".repeat(50), filename: "b.txt" },
+        ]);
+
+        const res = await post(app, `multipart/form-data; boundary=${boundary}`, body);
+        expect(res.status).toBe(413);
+        expect(await res.json()).toMatchObject({ error: 'File "b.txt" exceeds max size of 10 bytes' });
+        expect(storage.deleted).toHaveLength(1);
+        expect((await storage.bucket.list()).objects).toHaveLength(0);
+    });
+
+    it("rejects malformed multipart bodies", async () => {
+        const app = echoApp();
+        expect((await post(app, "multipart/form-data", "x")).status).toBe(400);
+        const truncated = await post(
+            app,
+            `multipart/form-data; boundary=${boundary}`,
+            `--${boundary}\r\nContent-Disposition: form-data; name="a"\r\n\r\nvalue`,
+        );
+        expect(truncated.status).toBe(400);
+    });
+});
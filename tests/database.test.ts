@@ -1,5 +1,14 @@
-import { describe, it, expect } from "vitest";
-import { validateIdentifier, buildWhereClause } from "../src/database/index";
+import { describe, it, expect, expectTypeOf } from "vitest";
+import {
+    validateIdentifier,
+    buildWhereClause,
+    createDatabase,
+    column,
+    defineTable,
+    createTableSQL,
+    type InferInsert,
+    type InferRow,
+} from "../src/database/index";
 import { DatabaseError } from "../src/errors/index";
 
 describe("database where builder", () => {
@@ -13,4 +22,301 @@ describe("database where builder", () => {
         expect(clause).toBe("id = ? AND active = ?");
         expect(params).toEqual(["1", true]);
     });
+
+    it("builds comparison operators and OR groups", () => {
+        const { clause, params } = buildWhereClause({
+            age: { op: "gte", value: 18 },
+            "users.name": { op: "like", value: "A%" },
+            created_at: { op: "between", value: ["2026-01-01", "2026-02-01"] },
+            $or: [{ role: "admin" }, { role: "editor", score: { op: "gt", value: 10 } }],
+        });
+        expect(clause).toBe("age >= ? AND users.name LIKE ? AND created_at BETWEEN ? AND ? AND (role = ? OR (role = ? AND score > ?))");
+        expect(params).toEqual([18, "A%", "2026-01-01", "2026-02-01", "admin", "editor", 10]);
+
+        expect(() => buildWhereClause({ age: { op: "between", value: [1] } })).toThrow(DatabaseError);
+        expect(() => buildWhereClause({ $or: [] })).toThrow(DatabaseError);
+        expect(() => buildWhereClause({ "a.b.c": 1 })).toThrow(DatabaseError);
+    });
+});
+
+describe("query builder", () => {
+    function recordingDb(rows: unknown[] = []) {
+        const calls: Array<{ sql: string; params: unknown[] }> = [];
+        const binding = {
+            prepare: (sql: string) => ({
+                bind: (...params: unknown[]) => {
+                    calls.push({ sql, params });
+                    return {
+                        all: async () => ({ results: rows, success: true, meta: {} }),
+                        first: async () => rows[0] ?? null,
+                    };
+                },
+            }),
+        } as unknown as D1Database;
+        return { db: createDatabase({ binding }), calls };
+    }
+
+    it("compiles chained calls to parameterized SQL", () => {
+        const { db } = recordingDb();
+        const base = db.from<{ id: number; name: string; team_id: number; active: boolean }>("users AS u");
+        const query = base
+            .select("u.id", "u.name", "teams.name AS team")
+            .leftJoin("teams", "teams.id", "u.team_id")
+            .where({ active: true })
+            .where({ $or: [{ "teams.name": { op: "like", value: "core%" } }, { "u.id": { op: "in", value: [1, 2] } }] })
+            .orderBy("u.name")
+            .orderBy("u.id", "desc")
+            .limit(10)
+            .offset(20);
+
+        expect(query.toSQL()).toEqual({
+            sql: "SELECT u.id, u.name, teams.name AS team FROM users AS u LEFT JOIN teams ON teams.id = u.team_id WHERE (active = ?) AND ((teams.name LIKE ? OR u.id IN (?, ?))) ORDER BY u.name ASC, u.id DESC LIMIT ? OFFSET ?",
+            params: [true, "core%", 1, 2, 10, 20],
+        });
+        expect(base.toSQL()).toEqual({ sql: "SELECT * FROM users AS u", params: [] });
+    });
+
+    it("compiles null to IS NULL and accepts only row or qualified columns", () => {
+        const { db } = recordingDb();
+        const users = db.from<{ id: number; deleted_at: string | null }>("users");
+
+        expect(users.where({ deleted_at: null, "teams.id": { op: "neq", value: null } }).toSQL()).toEqual({
+            sql: "SELECT * FROM users WHERE deleted_at IS NULL AND teams.id IS NOT NULL",
+            params: [],
+        });
+        // @ts-expect-error deletedAt is not a column of the row
+        users.where({ deletedAt: null });
+    });
+
+    it("rejects unsafe identifiers and paging values", () => {
+        const { db } = recordingDb();
+        expect(() => db.from("users; DROP TABLE users")).toThrow(DatabaseError);
+        expect(() => db.from("users").select("name, password")).toThrow(DatabaseError);
+        expect(() => db.from("users").orderBy("name", "sideways" as never)).toThrow(DatabaseError);
+        expect(() => db.from("users").join("teams", "teams.id", "1 OR 1=1")).toThrow(DatabaseError);
+        expect(() => db.from("users").limit(-1)).toThrow(DatabaseError);
+    });
+
+    it("runs all(), first() and count() through the service", async () => {
+        const { db, calls } = recordingDb([{ id: 1, name: "Ada", count: 3 }]);
+        const users = db.from<{ id: number; name: string }>("users").where({ id: { op: "lt", value: 5 } });
+
+        expect(await users.all()).toEqual([{ id: 1, name: "Ada", count: 3 }]);
+        expect(await users.first()).toMatchObject({ name: "Ada" });
+        expect(await users.orderBy("name").limit(2).count()).toBe(3);
+
+        expect(calls).toEqual([
+            { sql: "SELECT * FROM users WHERE id < ?", params: [5] },
+            { sql: "SELECT * FROM users WHERE id < ? LIMIT ?", params: [5, 1] },
+            { sql: "SELECT COUNT(*) AS count FROM users WHERE id < ?", params: [5] },
+        ]);
+    });
+});
+
+describe("schema tables", () => {
+    const teams = defineTable("teams", { id: column.integer().primaryKey(), name: column.text().notNull() });
+    const users = defineTable(
+        "users",
+        {
+            id: column.integer().primaryKey({ autoIncrement: true }),
+            email: column.text().notNull().unique(),
+            role: column.text().type<"admin" | "member">().notNull().default("member"),
+            bio: column.text().default("it's me"),
+            team_id: column.integer().references("teams", "id", { onDelete: "cascade" }),
+            created_at: column.text().notNull().defaultNow(),
+        },
+        { indexes: [{ columns: ["team_id", "role"] }] },
+    );
+
+    it("generates CREATE TABLE and index DDL", () => {
+        expect(createTableSQL(users)).toEqual([
+            "CREATE TABLE IF NOT EXISTS users (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT NOT NULL UNIQUE, role TEXT NOT NULL DEFAULT 'member', " +
+                "bio TEXT DEFAULT 'it''s me', team_id INTEGER REFERENCES teams(id) ON DELETE CASCADE, created_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP))",
+            "CREATE INDEX IF NOT EXISTS idx_users_team_id_role ON users (team_id, role)",
+        ]);
+
+        const memberships = defineTable(
+            "memberships",
+            { user_id: column.integer().notNull(), team_id: column.integer().notNull(), weight: column.real().default(1.5) },
+            { primaryKey: ["user_id", "team_id"], indexes: [{ name: "memberships_team", columns: ["team_id"], unique: true }] },
+        );
+        expect(createTableSQL(memberships, { ifNotExists: false })).toEqual([
+            "CREATE TABLE memberships (user_id INTEGER NOT NULL, team_id INTEGER NOT NULL, weight REAL DEFAULT 1.5, PRIMARY KEY (user_id, team_id))",
+            "CREATE UNIQUE INDEX memberships_team ON memberships (team_id)",
+        ]);
+
+        // Only INTEGER primary keys are rowid aliases; other keys need NOT NULL spelled out
+        const sessions = defineTable("sessions", { id: column.text().primaryKey(), user_id: column.integer() });
+        const postTags = defineTable("post_tags", { post_id: column.integer(), tag: column.text() }, { primaryKey: ["post_id", "tag"] });
+        expect(createTableSQL(sessions)).toEqual(["CREATE TABLE IF NOT EXISTS sessions (id TEXT PRIMARY KEY NOT NULL, user_id INTEGER)"]);
+        expect(createTableSQL(postTags)).toEqual([
+            "CREATE TABLE IF NOT EXISTS post_tags (post_id INTEGER NOT NULL, tag TEXT NOT NULL, PRIMARY KEY (post_id, tag))",
+        ]);
+    });
+
+    it("infers row and insert types from the columns", () => {
+        expectTypeOf<InferRow<typeof users>>().toEqualTypeOf<{
+            id: number;
+            email: string;
+            role: "admin" | "member";
+            bio: string | null;
+            team_id: number | null;
+            created_at: string;
+        }>();
+        expectTypeOf<InferInsert<typeof users>>().toEqualTypeOf<{
+            id?: number;
+            email: string;
+            role?: "admin" | "member";
+            bio?: string | null;
+            team_id?: number | null;
+            created_at?: string;
+        }>();
+    });
+
+    it("rejects invalid definitions", () => {
+        expect(() => defineTable("users; --", { id: column.integer() })).toThrow(DatabaseError);
+        expect(() => defineTable("users", { "bad name": column.text() })).toThrow(DatabaseError);
+        expect(() => defineTable("pairs", { a: column.integer().primaryKey(), b: column.integer().primaryKey() })).toThrow(DatabaseError);
+        expect(() => column.text().primaryKey({ autoIncrement: true })).toThrow(DatabaseError);
+        expect(() => createTableSQL(defineTable("t", { a: column.text().references("x; --", "id") }))).toThrow(DatabaseError);
+    });
+
+    it("accepts table definitions in insert, update, delete and from", async () => {
+        const calls: Array<{ sql: string; params: unknown[] }> = [];
+        const binding = {
+            prepare: (sql: string) => ({
+                bind: (...params: unknown[]) => {
+                    calls.push({ sql, params });
+                    return {
+                        run: async () => ({ success: true, meta: { last_row_id: 7, changes: 1 } }),
+                        all: async () => ({ results: [{ id: 1, name: "core" }], success: true, meta: {} }),
+                    };
+                },
+            }),
+        } as unknown as D1Database;
+        const db = createDatabase({ binding });
+
+        expect(await db.insert(users, { email: "ada@example.com", team_id: 1 })).toBe(7);
+        expect(await db.update(users, { role: "admin" }, { id: 7 })).toBe(1);
+        expect(await db.delete(teams, { id: 1 })).toBe(1);
+        const rows = await db.from(teams).where({ name: "core" }).all();
+        expect(rows[0]?.name).toBe("core");
+
+        expect(calls.map((call) => call.sql)).toEqual([
+            "INSERT INTO users (email, team_id) VALUES (?, ?)",
+            "UPDATE users SET role = ? WHERE id = ?",
+            "DELETE FROM teams WHERE id = ?",
+            "SELECT * FROM teams WHERE name = ?",
+        ]);
+    });
+});
+
+describe("transactions", () => {
+    function batchingDb(fail = false) {
+        const batches: Array<Array<{ sql: string; params: unknown[] }>> = [];
+        const binding = {
+            prepare: (sql: string) => ({ bind: (...params: unknown[]) => ({ sql, params }) }),
+            batch: async (statements: Array<{ sql: string; params: unknown[] }>) => {
+                if (fail) throw new Error("UNIQUE constraint failed: users.email");
+                batches.push(statements);
+                return statements.map((statement, index) => ({
+                    results: statement.sql.includes("RETURNING") ? [{ id: index + 1 }] : [],
+                    success: true,
+                    meta: { changes: 1 },
+                }));
+            },
+        } as unknown as D1Database;
+        return { db: createDatabase({ binding }), batches };
+    }
+
+    it("commits queued statements as one batch and exposes RETURNING rows after commit", async () => {
+        const { db, batches } = batchingDb();
+        const users = defineTable("users", { id: column.integer().primaryKey(), email: column.text().notNull() });
+
+        const result = await db.transaction(async (tx) => {
+            const user = tx.insert(users, { email: "ada@example.com" }, { returning: ["id"] });
+            await tx.execute("UPDATE accounts SET balance = balance - ? WHERE id = ?", [100, 1]);
+            tx.update("accounts", { frozen: false }, { id: 2 });
+            expect(() => user.row).toThrow(/only available after commit/);
+            return { user };
+        });
+
+        expect(batches).toHaveLength(1);
+        expect(batches[0]!.map((statement) => statement.sql)).toEqual([
+            "INSERT INTO users (email) VALUES (?) RETURNING id",
+            "UPDATE accounts SET balance = balance - ? WHERE id = ?",
+            "UPDATE accounts SET frozen = ? WHERE id = ?",
+        ]);
+        expect(result.user.row).toEqual({ id: 1 });
+        await expect(db.transaction((tx) => tx.delete("users", { id: 1 }, { returning: ["id; --"] }))).rejects.toThrow(DatabaseError);
+    });
+
+    it("rolls back savepoints, failed callbacks and failed batches", async () => {
+        const { db, batches } = batchingDb();
+        let late: (() => unknown) | undefined;
+
+        await db.transaction(async (tx) => {
+            tx.insert("orders", { id: 1 });
+            const discarded = await tx
+                .savepoint(async (sp) => {
+                    sp.insert("order_items", { order_id: 1 });
+                    throw new Error("out of stock");
+                })
+                .catch(() => "skipped");
+            expect(discarded).toBe("skipped");
+            late = () => tx.execute("DELETE FROM orders");
+        });
+        expect(batches[0]!.map((statement) => statement.sql)).toEqual(["INSERT INTO orders (id) VALUES (?)"]);
+        expect(late).toThrow(/already finished/);
+
+        let queued: { row: unknown } | undefined;
+        await expect(
+            db.transaction((tx) => {
+                queued = tx.insert("orders", { id: 2 });
+                throw new Error("validation failed");
+            }),
+        ).rejects.toThrow("validation failed");
+        expect(batches).toHaveLength(1);
+        expect(() => queued!.row).toThrow(/rolled back/);
+
+        const failing = batchingDb(true);
+        await expect(failing.db.transaction((tx) => (queued = tx.insert("users", { email: "dup@example.com" })))).rejects.toThrow(DatabaseError);
+        expect(() => queued!.row).toThrow(/failed to commit/);
+    });
+});
+
+describe("database cancellation", () => {
+    it("rejects pending and new calls once the signal aborts", async () => {
+        let prepared = 0;
+        const binding = {
+            prepare: () => {
+                prepared++;
+                return { bind: () => ({ first: () => new Promise(() => {}) }) };
+            },
+        } as unknown as D1Database;
+        const controller = new AbortController();
+        const db = createDatabase({ binding, signal: controller.signal });
+
+        const pending = db.get("SELECT 1");
+        controller.abort(new Error("client went away"));
+        await expect(pending).rejects.toThrow("client went away");
+
+        await expect(db.get("SELECT 2")).rejects.toThrow("client went away");
+        expect(prepared).toBe(1);
+    });
+
+    it("keeps wrapping driver errors in DatabaseError", async () => {
+        const binding = {
+            prepare: () => ({
+                bind: () => ({
+                    run: async () => {
+                        throw new Error("no such table: users");
+                    },
+                }),
+            }),
+        } as unknown as D1Database;
+        const db = createDatabase({ binding }).withSignal(new AbortController().signal);
+
+        await expect(db.execute("DELETE FROM users")).rejects.toBeInstanceOf(DatabaseError);
+    });
 });
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
 import { createMailer } from "../src/email/index";
 import type { SendEmail } from "../src/email/index";
+import { createTraceContext, formatTraceparent } from "../src/core/trace";
 
 afterEach(() => {
     vi.restoreAllMocks();
@@ -8,7 +9,7 @@ afterEach(() => {
 
 describe("createMailer", () => {
     it("sends via Cloudflare Email Service binding", async () => {
-        const send = vi.fn(async () => ({ messageId: "msg-1" }));
+        const send = vi.fn(async (_message: unknown) => ({ messageId: "msg-1" }));
         const binding = { send } as unknown as SendEmail;
         const mailer = createMailer({
             from: { email: "noreply@example.com", name: "App" },
@@ -28,7 +29,7 @@ describe("createMailer", () => {
         expect(result.success).toBe(true);
         expect(result.messageId).toBe("msg-1");
         expect(send).toHaveBeenCalledOnce();
-        const payload = send.mock.calls[0][0] as Record<string, unknown>;
+        const payload = send.mock.calls[0]![0] as Record<string, unknown>;
         expect(payload.subject).toBe("Hello");
         expect(payload.from).toEqual({ email: "noreply@example.com", name: "App" });
         expect(payload.to).toEqual({ email: "user@example.com", name: "User" });
@@ -37,7 +38,7 @@ describe("createMailer", () => {
     });
 
     it("sendTemplate interpolates and HTML-escapes values", async () => {
-        const send = vi.fn(async () => ({ messageId: "t1" }));
+        const send = vi.fn(async (_message: unknown) => ({ messageId: "t1" }));
         const mailer = createMailer({
             from: { email: "noreply@example.com" },
             binding: { send } as unknown as SendEmail,
@@ -46,7 +47,7 @@ describe("createMailer", () => {
         mailer.registerTemplate("welcome", "<h1>Hello {{ name }}</h1>");
         await mailer.sendTemplate("welcome", { name: "<script>" }, { email: "u@example.com" }, "Welcome");
 
-        const payload = send.mock.calls[0][0] as { html?: string; text?: string; subject?: string };
+        const payload = send.mock.calls[0]![0] as { html?: string; text?: string; subject?: string };
         expect(payload.subject).toBe("Welcome");
         expect(payload.html).toBe("<h1>Hello &lt;script&gt;</h1>");
         expect(payload.text).toContain("Hello &lt;script&gt;");
@@ -69,6 +70,19 @@ describe("createMailer", () => {
         expect(fetchMock).toHaveBeenCalledWith("https://api.mailchannels.net/tx/v1/send", expect.objectContaining({ method: "POST" }));
     });
 
+    it("propagates the trace to MailChannels and keeps templates across withTrace()", async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("", { status: 200 }));
+        const trace = createTraceContext();
+
+        const mailer = createMailer({ from: { email: "noreply@example.com" } });
+        mailer.registerTemplate("welcome", "<p>Hi {{name}}</p>");
+        await mailer.withTrace(trace).sendTemplate("welcome", { name: "Ada" }, { email: "user@example.com" }, "Welcome");
+
+        const init = fetchMock.mock.calls[0]![1]!;
+        expect(init.headers).toMatchObject({ traceparent: formatTraceparent(trace), "X-Request-Id": trace.requestId });
+    });
+
     it("throws when MailChannels returns an error", async () => {
         vi.spyOn(console, "warn").mockImplementation(() => {});
         vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("nope", { status: 500 }));
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+    createApp,
+    createValidator,
+    v,
+    rateLimit,
+    errorResponse,
+    HttpError,
+    RateLimitError,
+    ValidationError,
+    problemResponse,
+    getProblem,
+    compressionMiddleware,
+    etagMiddleware,
+} from "../src/index";
+import type { MountableApp } from "../src/index";
+
+const env = {};
+const ctx = { waitUntil: () => {}, passThroughOnException: () => {} } as unknown as ExecutionContext;
+
+function call(app: MountableApp, path: string, init?: RequestInit) {
+    return app.fetch(new Request(`https://example.com${path}`, init), env, ctx);
+}
+
+describe("problem details", () => {
+    it("keeps the existing error shapes by default", async () => {
+        const app = createApp();
+        app.get("/fail", () => {
+            throw new HttpError("Nope", 409, "CONFLICT");
+        });
+
+        const res = await call(app, "/fail");
+        expect(res.headers.get("Content-Type")).toBe("application/json");
+        expect(await res.json()).toEqual({ error: { code: "CONFLICT", message: "Nope", statusCode: 409 } });
+    });
+
+    it("renders thrown toolkit errors as problem+json", async () => {
+        const app = createApp({ problemDetails: { typeBase: "https://errors.example.com/" } });
+        app.get("/limited", () => {
+            throw new RateLimitError("Slow down", 30, 100, 0);
+        });
+        app.get("/invalid", () => {
+            throw new ValidationError("Invalid input", undefined, [{ field: "email", message: "Required" }]);
+        });
+
+        const limited = await call(app, "/limited");
+        expect(limited.status).toBe(429);
+        expect(limited.headers.get("Content-Type")).toBe("application/problem+json");
+        expect(limited.headers.get("Retry-After")).toBe("30");
+        expect(await limited.json()).toEqual({
+            type: "https://errors.example.com/rate-limited",
+            title: "Too Many Requests",
+            status: 429,
+            detail: "Slow down",
+            instance: "/limited",
+            code: "RATE_LIMITED",
+            retryAfter: 30,
+            limit: 100,
+            remaining: 0,
+        });
+
+        const invalid = await call(app, "/invalid");
+        expect(await invalid.json()).toMatchObject({ status: 400, errors: [{ field: "email", message: "Required" }] });
+    });
+
+    it("converts middleware, routing and unknown errors", async () => {
+        const app = createApp({ problemDetails: true });
+        app.use(rateLimit({ maxRequests: 1, windowSeconds: 60, keyGenerator: () => "k" }));
+        app.post("/users", createValidator({ body: v.object({ email: v.string().email() }) }), () => new Response("ok"));
+        app.get("/boom", () => {
+            throw new Error("secret");
+        });
+
+        const invalid = await call(app, "/users", { method: "POST", body: JSON.stringify({}), headers: { "Content-Type": "application/json" } });
+        expect(invalid.status).toBe(422);
+        expect(await invalid.json()).toMatchObject({ type: "about:blank", title: "Unprocessable Content", detail: "Validation failed", instance: "/users" });
+
+        const limited = await call(app, "/users", { method: "DELETE" });
+        expect(limited.status).toBe(429);
+        expect(await limited.json()).toMatchObject({ status: 429, retryAfter: 60 });
+
+        const other = createApp({ problemDetails: true });
+        other.get("/boom", () => {
+            throw new Error("secret");
+        });
+        other.get("/users", () => new Response("ok"));
+
+        const boom = await call(other, "/boom");
+        expect(await boom.json()).toEqual({
+            type: "about:blank",
+            title: "Internal Server Error",
+            status: 500,
+            instance: "/boom",
+            code: "INTERNAL_ERROR",
+            detail: "Internal Server Error",
+        });
+
+        const notAllowed = await call(other, "/users", { method: "PUT" });
+        expect(notAllowed.status).toBe(405);
+        expect(notAllowed.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+        expect(await notAllowed.json()).toMatchObject({ status: 405, allowed: ["GET", "HEAD", "OPTIONS"] });
+
+        const missing = await call(other, "/nowhere");
+        expect(await missing.json()).toMatchObject({ status: 404, title: "Not Found", instance: "/nowhere" });
+    });
+
+    it("converts errorResponse() and passes explicit problems through", async () => {
+        const app = createApp({ problemDetails: true });
+        app.get("/teapot", () => errorResponse("Short and stout", 418, { pot: "tea" }));
+        app.get("/plan", () => problemResponse({ status: 403, type: "https://example.com/plan", detail: "Upgrade required" }));
+
+        const teapot = await call(app, "/teapot");
+        expect(await teapot.json()).toEqual({
+            type: "about:blank",
+            title: "Client Error",
+            status: 418,
+            detail: "Short and stout",
+            instance: "/teapot",
+            details: { pot: "tea" },
+        });
+
+        const plan = await call(app, "/plan");
+        expect(await plan.json()).toEqual({ type: "https://example.com/plan", title: "Forbidden", status: 403, detail: "Upgrade required" });
+    });
+
+    it("records problems on legacy responses", () => {
+        expect(getProblem(errorResponse("Bad", 400))).toEqual({ status: 400, detail: "Bad" });
+        expect(getProblem(new Response("plain"))).toBeUndefined();
+    });
+
+    it("keeps the problem through middleware that rebuilds the response", async () => {
+        const app = createApp({ problemDetails: true });
+        app.use(compressionMiddleware());
+        app.use(etagMiddleware());
+        app.use(async (_ctx, next) => {
+            const response = await next();
+            return new Response(response.body, response);
+        });
+        app.get("/bad", () => errorResponse("bad input", 400));
+        app.get("/large", () => errorResponse("x".repeat(2048), 400));
+
+        const bad = await call(app, "/bad", { headers: { "Accept-Encoding": "gzip" } });
+        expect(bad.headers.get("Content-Type")).toBe("application/problem+json");
+        expect(await bad.json()).toEqual({ type: "about:blank", title: "Bad Request", status: 400, detail: "bad input", instance: "/bad" });
+
+        // Rendered before compression and ETags, so both describe the problem body
+        const large = await call(app, "/large", { headers: { "Accept-Encoding": "gzip" } });
+        expect(large.headers.get("Content-Type")).toBe("application/problem+json");
+        expect(large.headers.get("Content-Encoding")).toBe("gzip");
+        const problem = await new Response(large.body!.pipeThrough(new DecompressionStream("gzip"))).json();
+        expect((problem as { detail: string }).detail).toHaveLength(2048);
+    });
+
+    it("keeps the problem record out of the response", async () => {
+        const response = errorResponse("Bad thing", 400, { secret: "x" });
+        expect([...response.headers.keys()]).toEqual(["content-type"]);
+        expect(await response.json()).toEqual({ error: "Bad thing", details: { secret: "x" } });
+    });
+});
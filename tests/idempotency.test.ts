@@ -0,0 +1,214 @@
+import { describe, it, expect } from "vitest";
+import {
+    createApp,
+    createCache,
+    createDatabase,
+    idempotency,
+    createMemoryIdempotencyStore,
+    createCacheIdempotencyStore,
+    createD1IdempotencyStore,
+    jsonResponse,
+    jsonMiddleware,
+    bodyParser,
+} from "../src/index";
+import type { IdempotencyStore } from "../src/index";
+import { createMockExecutionContext, createMockKV } from "../src/testing/index";
+
+function orderApp(store: IdempotencyStore | (() => IdempotencyStore), handler?: (body: unknown) => Promise<Response>) {
+    const app = createApp();
+    let calls = 0;
+    app.use(idempotency({ store }));
+    app.post("/orders", async (ctx) => {
+        calls++;
+        const body = await ctx.request.json();
+        return handler ? handler(body) : jsonResponse({ id: calls, ...(body as object) }, 201, { "X-Order": String(calls) });
+    });
+    const send = (key: string | null, body: unknown) =>
+        app.fetch(
+            new Request("https://example.com/orders", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", ...(key && { "Idempotency-Key": key }) },
+                body: JSON.stringify(body),
+            }),
+            {},
+            createMockExecutionContext(),
+        );
+    return { app, send, calls: () => calls };
+}
+
+describe("idempotency", () => {
+    it("stores the first response and replays it on retries", async () => {
+        const { send, calls } = orderApp(createMemoryIdempotencyStore());
+
+        const first = await send("key-1", { sku: "A" });
+        expect(first.status).toBe(201);
+        expect(first.headers.get("Idempotent-Replayed")).toBeNull();
+        expect(await first.json()).toEqual({ id: 1, sku: "A" });
+
+        const retry = await send("key-1", { sku: "A" });
+        expect(retry.status).toBe(201);
+        expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+        expect(retry.headers.get("X-Order")).toBe("1");
+        expect(await retry.json()).toEqual({ id: 1, sku: "A" });
+        expect(calls()).toBe(1);
+
+        await send(null, { sku: "A" });
+        expect(calls()).toBe(2);
+    });
+
+    it("rejects key reuse with a different body", async () => {
+        const { send, calls } = orderApp(createMemoryIdempotencyStore());
+        await send("key-1", { sku: "A" });
+
+        const reused = await send("key-1", { sku: "B" });
+        expect(reused.status).toBe(422);
+        expect(await reused.json()).toMatchObject({ error: "Idempotency-Key was already used for a different request" });
+        expect(calls()).toBe(1);
+    });
+
+    it("fingerprints bodies already read by jsonMiddleware or bodyParser", async () => {
+        const app = createApp();
+        let calls = 0;
+        app.use(jsonMiddleware());
+        app.use(idempotency({ store: createMemoryIdempotencyStore() }));
+        app.post("/orders", (ctx) => jsonResponse({ id: ++calls, order: ctx.state.body }, 201));
+        const forms = createApp();
+        forms.post("/uploads", bodyParser(), idempotency({ store: createMemoryIdempotencyStore() }), () => jsonResponse({ id: ++calls }, 201));
+        forms.post(
+            "/raw",
+            async (ctx, next) => {
+                await ctx.request.text();
+                return next();
+            },
+            idempotency({ store: createMemoryIdempotencyStore() }),
+            () => jsonResponse({ ok: true }),
+        );
+
+        const send = (path: string, key: string, body: BodyInit, headers: Record<string, string> = { "Content-Type": "application/json" }) =>
+            (path === "/orders" ? app : forms).fetch(
+                new Request(`https://example.com${path}`, { method: "POST", headers: { ...headers, "Idempotency-Key": key }, body }),
+                {},
+                createMockExecutionContext(),
+            );
+
+        expect((await send("/orders", "k1", '{"sku":"A"}')).status).toBe(201);
+        const retry = await send("/orders", "k1", '{"sku":"A"}');
+        expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+        expect(await retry.json()).toEqual({ id: 1, order: { sku: "A" } });
+        expect((await send("/orders", "k1", '{"sku":"B"}')).status).toBe(422);
+
+        const upload = (content: string) => {
+            const form = new FormData();
+            form.append("file", new File([content], "a.txt", { type: "text/plain" }));
+            return send("/uploads", "k2", form, {});
+        };
+        expect((await upload("first")).status).toBe(201);
+        expect((await upload("first")).headers.get("Idempotent-Replayed")).toBe("true");
+        expect((await upload("other")).status).toBe(422);
+        expect(calls).toBe(2);
+
+        // A body consumed by anything else cannot be fingerprinted
+        expect((await send("/raw", "k3", "text", { "Content-Type": "text/plain" })).status).toBe(500);
+    });
+
+    it("rejects concurrent duplicates with 409", async () => {
+        let finish!: () => void;
+        const gate = new Promise<void>((resolve) => (finish = resolve));
+        const { send } = orderApp(createMemoryIdempotencyStore(), async () => {
+            await gate;
+            return jsonResponse({ ok: true }, 201);
+        });
+
+        const first = send("key-1", { sku: "A" });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        const duplicate = await send("key-1", { sku: "A" });
+        expect(duplicate.status).toBe(409);
+        expect(Number(duplicate.headers.get("Retry-After"))).toBeGreaterThan(0);
+
+        finish();
+        expect((await first).status).toBe(201);
+        expect((await send("key-1", { sku: "A" })).headers.get("Idempotent-Replayed")).toBe("true");
+    });
+
+    it("releases the key when the handler fails", async () => {
+        let fail = true;
+        const { send, calls } = orderApp(createMemoryIdempotencyStore(), async () => {
+            if (fail) throw new Error("boom");
+            return jsonResponse({ ok: true }, 201);
+        });
+
+        expect((await send("key-1", { sku: "A" })).status).toBe(500);
+        fail = false;
+        const retry = await send("key-1", { sku: "A" });
+        expect(retry.status).toBe(201);
+        expect(retry.headers.get("Idempotent-Replayed")).toBeNull();
+        expect(calls()).toBe(2);
+    });
+
+    it("passes through safe methods and can require a key", async () => {
+        const app = createApp();
+        app.use(idempotency({ store: createMemoryIdempotencyStore(), required: true }));
+        app.get("/orders", () => jsonResponse([]));
+        app.post("/orders", () => jsonResponse({ ok: true }, 201));
+
+        const ctx = createMockExecutionContext();
+        expect((await app.fetch(new Request("https://example.com/orders"), {}, ctx)).status).toBe(200);
+        const missing = await app.fetch(new Request("https://example.com/orders", { method: "POST" }), {}, ctx);
+        expect(missing.status).toBe(400);
+        expect(await missing.json()).toMatchObject({ error: "Idempotency-Key header is required" });
+    });
+
+    it("stores records in KV through createCache", async () => {
+        const kv = createMockKV();
+        const store = createCacheIdempotencyStore({ cache: createCache({ binding: kv as never }) });
+        const { send, calls } = orderApp(store);
+
+        await send("key-1", { sku: "A" });
+        const record = JSON.parse((await kv.get("idempotency:key-1"))!);
+        expect(record).toMatchObject({ status: "completed", response: { status: 201 } });
+
+        expect((await send("key-1", { sku: "A" })).headers.get("Idempotent-Replayed")).toBe("true");
+        expect(calls()).toBe(1);
+    });
+
+    it("claims keys in D1 with a conditional upsert", async () => {
+        const statements: string[] = [];
+        const rows = new Map<string, Record<string, unknown>>();
+        const binding = {
+            prepare(sql: string) {
+                statements.push(sql);
+                let params: unknown[] = [];
+                const statement = {
+                    bind: (...values: unknown[]) => ((params = values), statement),
+                    async run() {
+                        let changes = 0;
+                        if (sql.startsWith("INSERT") && !rows.has(params[0] as string)) {
+                            rows.set(params[0] as string, { fingerprint: params[1], status: "in_flight", response: null, expires_at: params[2] });
+                            changes = 1;
+                        } else if (sql.startsWith("UPDATE")) {
+                            rows.set(params[3] as string, { fingerprint: params[0], status: "completed", response: params[1], expires_at: params[2] });
+                            changes = 1;
+                        }
+                        return { success: true, results: [], meta: { changes } };
+                    },
+                    async first() {
+                        return rows.get(params[0] as string) ?? null;
+                    },
+                };
+                return statement;
+            },
+        };
+        const database = createDatabase({ binding: binding as never });
+        const { send, calls } = orderApp(() => createD1IdempotencyStore({ database }));
+
+        await send("key-1", { sku: "A" });
+        const retry = await send("key-1", { sku: "A" });
+        expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+        expect(await retry.json()).toEqual({ id: 1, sku: "A" });
+        expect(calls()).toBe(1);
+
+        expect(statements.filter((sql) => sql.startsWith("CREATE TABLE IF NOT EXISTS idempotency_keys"))).toHaveLength(1);
+        expect(statements.find((sql) => sql.startsWith("INSERT"))).toContain("ON CONFLICT(key) DO UPDATE");
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
-import { createLogger, createApp, jsonResponse } from "../src/index";
+import { createLogger, createApp, jsonResponse, tracingMiddleware } from "../src/index";
 import { createTestApp } from "../src/testing/index";
 
 afterEach(() => {
@@ -50,4 +50,30 @@ describe("createLogger", () => {
         expect(body.requestId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i);
         expect(log).toHaveBeenCalled();
     });
+
+    it("requestLogger reuses incoming request IDs and adds trace IDs to its logger", async () => {
+        const log = vi.spyOn(console, "log").mockImplementation(() => {});
+        const logger = createLogger({ level: "info", service: "api" });
+        const app = createApp().use(tracingMiddleware()).use(logger.requestLogger());
+        app.get("/ping", (ctx) => {
+            ctx.get("logger").child({ step: "handler" }).info("work");
+            return jsonResponse({ requestId: ctx.get("requestId") });
+        });
+
+        const res = await createTestApp(app).get("/ping", {
+            headers: { "X-Request-Id": "abc-123", traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01" },
+        });
+        expect(await res.json()).toEqual({ requestId: "abc-123" });
+
+        const entries = log.mock.calls.map((call) => JSON.parse(String(call[0])));
+        expect(entries).toHaveLength(2);
+        for (const entry of entries) {
+            expect(entry.data).toMatchObject({
+                requestId: "abc-123",
+                traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+                spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+            });
+        }
+        expect(entries[0].data.step).toBe("handler");
+    });
 });
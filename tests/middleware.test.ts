@@ -1,6 +1,23 @@
-import { describe, it, expect } from "vitest";
-import { createApp, jsonResponse, corsMiddleware, jsonMiddleware, securityHeadersMiddleware } from "../src/index";
-import { createTestApp } from "../src/testing/index";
+import { describe, it, expect, expectTypeOf } from "vitest";
+import {
+    createApp,
+    jsonResponse,
+    corsMiddleware,
+    jsonMiddleware,
+    securityHeadersMiddleware,
+    compressionMiddleware,
+    etagMiddleware,
+    timeoutMiddleware,
+    tracingMiddleware,
+    parseTraceparent,
+    traceHeaders,
+    createDatabase,
+    fileResponse,
+    createStorage,
+    createSSE,
+    pipeStream,
+} from "../src/index";
+import { createTestApp, createMockExecutionContext } from "../src/testing/index";
 
 describe("corsMiddleware", () => {
     it("handles preflight OPTIONS with configured headers", async () => {
@@ -106,3 +123,374 @@ describe("securityHeadersMiddleware", () => {
         expect(res.headers.get("Strict-Transport-Security")).toContain("max-age=");
     });
 });
+
+describe("compressionMiddleware", () => {
+    const rows = Array.from({ length: 200 }, (_, id) => ({ id, name: `user-${id}` }));
+
+    function fetchWith(app: ReturnType<typeof createApp>, path: string, acceptEncoding?: string) {
+        const headers = acceptEncoding ? { "Accept-Encoding": acceptEncoding } : undefined;
+        return app.fetch(new Request(`https://example.com${path}`, { headers }), {}, createMockExecutionContext());
+    }
+
+    function decompress(res: Response, format: "gzip" | "deflate"): Promise<string> {
+        return new Response(res.body!.pipeThrough(new DecompressionStream(format))).text();
+    }
+
+    it("compresses large JSON with the preferred accepted encoding", async () => {
+        const app = createApp();
+        app.use(compressionMiddleware());
+        app.get("/users", () => jsonResponse(rows, 200, { ETag: '"v1"' }));
+
+        const gzip = await fetchWith(app, "/users", "deflate;q=0.5, gzip");
+        expect(gzip.headers.get("Content-Encoding")).toBe("gzip");
+        expect(gzip.headers.get("Vary")).toBe("Accept-Encoding");
+        expect(gzip.headers.get("ETag")).toBe('W/"v1"');
+        expect(JSON.parse(await decompress(gzip, "gzip"))).toEqual(rows);
+
+        const deflate = await fetchWith(app, "/users", "gzip;q=0, deflate");
+        expect(deflate.headers.get("Content-Encoding")).toBe("deflate");
+        expect(JSON.parse(await decompress(deflate, "deflate"))).toEqual(rows);
+
+        const identity = await fetchWith(app, "/users");
+        expect(identity.headers.get("Content-Encoding")).toBeNull();
+        expect(identity.headers.get("Vary")).toBeNull();
+        expect(await identity.json()).toEqual(rows);
+    });
+
+    it("skips small bodies, other media types, encoded and streaming responses", async () => {
+        const app = createApp();
+        app.use(corsMiddleware({ origin: "https://app.example.com", credentials: true }));
+        app.use(compressionMiddleware({ threshold: 64 }));
+        app.get("/small", () => jsonResponse({ ok: true }));
+        app.get("/image", () => new Response(new Uint8Array(4096), { headers: { "Content-Type": "image/png" } }));
+        app.get("/encoded", () => new Response("x".repeat(4096), { headers: { "Content-Type": "text/plain", "Content-Encoding": "br" } }));
+        app.get("/events", () => {
+            const sse = createSSE();
+            void sse.send({ data: "x".repeat(4096) }).then(() => sse.close());
+            return sse.response;
+        });
+        app.get("/piped", () => pipeStream(new Response("x".repeat(4096)).body, "text/plain"));
+
+        const small = await fetchWith(app, "/small", "gzip");
+        expect(small.headers.get("Content-Encoding")).toBeNull();
+        expect(small.headers.get("Vary")).toBe("Origin");
+        expect(await small.json()).toEqual({ ok: true });
+
+        expect((await fetchWith(app, "/image", "gzip")).headers.get("Content-Encoding")).toBeNull();
+        expect((await fetchWith(app, "/encoded", "gzip")).headers.get("Content-Encoding")).toBe("br");
+
+        const events = await fetchWith(app, "/events", "gzip");
+        expect(events.headers.get("Content-Encoding")).toBeNull();
+        expect(await events.text()).toContain("data: ");
+
+        const piped = await fetchWith(app, "/piped", "gzip");
+        expect(piped.headers.get("Content-Encoding")).toBeNull();
+        expect(await piped.text()).toHaveLength(4096);
+    });
+});
+
+describe("etagMiddleware", () => {
+    function fetchWith(app: ReturnType<typeof createApp>, method: string, path: string, headers?: Record<string, string>) {
+        return app.fetch(new Request(`https://example.com${path}`, { method, headers }), {}, createMockExecutionContext());
+    }
+
+    it("computes ETags for JSON and answers 304 on If-None-Match", async () => {
+        const app = createApp();
+        app.use(etagMiddleware());
+        app.get("/users", () => jsonResponse([{ id: 1 }], 200, { "Cache-Control": "max-age=60" }));
+
+        const first = await fetchWith(app, "GET", "/users");
+        const etag = first.headers.get("ETag")!;
+        expect(etag).toMatch(/^"[0-9a-f]{40}"$/);
+        expect(await first.json()).toEqual([{ id: 1 }]);
+
+        const cached = await fetchWith(app, "GET", "/users", { "If-None-Match": `"other", W/${etag}` });
+        expect(cached.status).toBe(304);
+        expect(cached.body).toBeNull();
+        expect(cached.headers.get("ETag")).toBe(etag);
+        expect(cached.headers.get("Cache-Control")).toBe("max-age=60");
+
+        const head = await fetchWith(app, "HEAD", "/users", { "If-None-Match": etag });
+        expect(head.status).toBe(304);
+
+        const changed = await fetchWith(app, "GET", "/users", { "If-None-Match": '"stale"' });
+        expect(changed.status).toBe(200);
+
+        const weakApp = createApp();
+        weakApp.use(etagMiddleware({ weak: true }));
+        weakApp.get("/users", () => jsonResponse([{ id: 1 }]));
+        expect((await fetchWith(weakApp, "GET", "/users")).headers.get("ETag")).toBe(`W/${etag}`);
+    });
+
+    it("reuses the R2 ETag from StorageService.download and honors If-Modified-Since", async () => {
+        const uploaded = new Date("2026-01-01T00:00:00Z");
+        const bucket = {
+            get: async () => ({ body: new Response("pdf-bytes").body, etag: "abc123", size: 9, uploaded, httpMetadata: { contentType: "application/pdf" } }),
+        } as unknown as R2Bucket;
+        const storage = createStorage({ binding: bucket });
+
+        const app = createApp();
+        app.use(etagMiddleware());
+        app.get("/files/report.pdf", async () => {
+            const file = await storage.download("report.pdf");
+            return fileResponse(file.data ?? null, { contentType: file.contentType, etag: file.etag, lastModified: file.lastModified });
+        });
+
+        const res = await fetchWith(app, "GET", "/files/report.pdf");
+        expect(res.headers.get("ETag")).toBe('"abc123"');
+        expect(await res.text()).toBe("pdf-bytes");
+
+        expect((await fetchWith(app, "GET", "/files/report.pdf", { "If-None-Match": '"abc123"' })).status).toBe(304);
+        expect((await fetchWith(app, "GET", "/files/report.pdf", { "If-Modified-Since": uploaded.toUTCString() })).status).toBe(304);
+        expect((await fetchWith(app, "GET", "/files/report.pdf", { "If-Modified-Since": "Wed, 31 Dec 2025 00:00:00 GMT" })).status).toBe(200);
+    });
+
+    it("enforces If-Match on unsafe methods with 412", async () => {
+        const versions: Record<string, string> = { "1": "v2" };
+        const app = createApp();
+        app.use(etagMiddleware({ currentETag: (ctx) => versions[ctx.url.pathname.split("/").pop()!] }));
+        app.put("/docs/:id", () => jsonResponse({ saved: true }));
+        app.delete("/docs/:id", () => new Response(null, { status: 204 }));
+
+        expect((await fetchWith(app, "PUT", "/docs/1", { "If-Match": '"v2"' })).status).toBe(200);
+        expect((await fetchWith(app, "PUT", "/docs/1")).status).toBe(200);
+
+        const stale = await fetchWith(app, "PUT", "/docs/1", { "If-Match": '"v1"' });
+        expect(stale.status).toBe(412);
+        expect(await stale.json()).toMatchObject({ details: { etag: '"v2"' } });
+
+        expect((await fetchWith(app, "DELETE", "/docs/1", { "If-Match": 'W/"v2"' })).status).toBe(412);
+        expect((await fetchWith(app, "DELETE", "/docs/1", { "If-Match": "*" })).status).toBe(204);
+        expect((await fetchWith(app, "DELETE", "/docs/2", { "If-Match": "*" })).status).toBe(412);
+    });
+});
+
+describe("timeoutMiddleware", () => {
+    function fetchPath(app: ReturnType<typeof createApp>, path: string) {
+        return app.fetch(new Request(`https://example.com${path}`), {}, createMockExecutionContext());
+    }
+
+    it("answers 504 and aborts ctx.signal when the handler ignores it", async () => {
+        let signal: AbortSignal | undefined;
+        const app = createApp();
+        app.use(timeoutMiddleware({ ms: 20 }));
+        app.get("/slow", (ctx) => {
+            signal = ctx.signal;
+            return new Promise<Response>(() => {});
+        });
+        app.get("/fast", () => jsonResponse({ ok: true }));
+
+        const res = await fetchPath(app, "/slow");
+        expect(res.status).toBe(504);
+        expect(await res.json()).toEqual({ error: { code: "REQUEST_TIMEOUT", message: "Request timed out after 20ms", statusCode: 504 } });
+        expect(signal?.aborted).toBe(true);
+        expect(signal?.reason).toMatchObject({ name: "TimeoutError" });
+
+        expect((await fetchPath(app, "/fast")).status).toBe(200);
+    });
+
+    it("cancels database calls made with ctx.signal", async () => {
+        const binding = {
+            prepare: () => ({ bind: () => ({ all: () => new Promise(() => {}) }) }),
+        } as unknown as D1Database;
+        let queryError: unknown;
+
+        const app = createApp();
+        app.use(timeoutMiddleware({ ms: 20, status: 503, message: "Database is busy" }));
+        app.get("/report", async (ctx) => {
+            const db = createDatabase({ binding }).withSignal(ctx.signal);
+            try {
+                return jsonResponse(await db.query("SELECT * FROM orders"));
+            } catch (error) {
+                queryError = error;
+                throw error;
+            }
+        });
+
+        const res = await fetchPath(app, "/report");
+        expect(res.status).toBe(503);
+        expect(await res.json()).toMatchObject({ error: { code: "REQUEST_TIMEOUT", message: "Database is busy" } });
+        expect(queryError).toMatchObject({ name: "TimeoutError" });
+    });
+});
+
+describe("tracingMiddleware", () => {
+    const incoming = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+    it("continues an incoming trace and echoes the request ID", async () => {
+        const app = createApp().use(tracingMiddleware());
+        app.get("/trace", (ctx) => jsonResponse({ trace: ctx.get("trace"), outbound: traceHeaders(ctx.get("trace")) }));
+
+        const res = await app.fetch(
+            new Request("https://example.com/trace", { headers: { traceparent: incoming, tracestate: "vendor=1", "X-Request-Id": "req-123" } }),
+            {},
+            createMockExecutionContext(),
+        );
+        const { trace, outbound } = (await res.json()) as { trace: Record<string, unknown>; outbound: Record<string, string> };
+
+        expect(res.headers.get("X-Request-Id")).toBe("req-123");
+        expect(trace).toMatchObject({ traceId: "4bf92f3577b34da6a3ce929d0e0e4736", parentSpanId: "00f067aa0ba902b7", sampled: true, requestId: "req-123" });
+        expect(trace.spanId).toMatch(/^[0-9a-f]{16}$/);
+        expect(trace.spanId).not.toBe("00f067aa0ba902b7");
+        expect(outbound).toEqual({ traceparent: `00-4bf92f3577b34da6a3ce929d0e0e4736-${trace.spanId}-01`, tracestate: "vendor=1", "X-Request-Id": "req-123" });
+    });
+
+    it("starts a new trace for missing, invalid or untrusted headers", async () => {
+        const app = createApp().use(tracingMiddleware({ trustIncoming: false }));
+        app.get("/trace", (ctx) => jsonResponse(ctx.get("trace")));
+        app.get("/fail", () => {
+            throw new Error("boom");
+        });
+
+        const res = await app.fetch(
+            new Request("https://example.com/trace", { headers: { traceparent: incoming, "X-Request-Id": "req-123" } }),
+            {},
+            createMockExecutionContext(),
+        );
+        const trace = (await res.json()) as Record<string, unknown>;
+        expect(trace.traceId).not.toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+        expect(trace.parentSpanId).toBeUndefined();
+        expect(res.headers.get("X-Request-Id")).toBe(trace.requestId);
+        expect(trace.requestId).not.toBe("req-123");
+
+        const failed = await app.fetch(new Request("https://example.com/fail"), {}, createMockExecutionContext());
+        expect(failed.status).toBe(500);
+        expect(failed.headers.get("X-Request-Id")).toBeTruthy();
+
+        expect(parseTraceparent("00-00000000000000000000000000000000-00f067aa0ba902b7-01")).toBeNull();
+        expect(parseTraceparent("ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01")).toBeNull();
+        expect(parseTraceparent("01-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00-future")).toMatchObject({ sampled: false });
+    });
+});
+
+describe("onion middleware with next()", () => {
+    it("wraps downstream responses and runs in onion order", async () => {
+        const app = createApp();
+        const order: string[] = [];
+
+        app.use(async (_ctx, next) => {
+            order.push("outer:before");
+            const response = await next();
+            order.push("outer:after");
+            response.headers.set("X-Response-Time", "1ms");
+            return response;
+        });
+        app.use(async () => {
+            order.push("short-circuit-style");
+        });
+        app.get(
+            "/",
+            async (_ctx, next) => {
+                order.push("route:before");
+                const response = await next();
+                order.push("route:after");
+                return new Response(response.body, { status: 201, headers: response.headers });
+            },
+            () => {
+                order.push("handler");
+                return jsonResponse({ ok: true });
+            },
+        );
+
+        const testApp = createTestApp(app);
+        const res = await testApp.get("/");
+        expect(res.status).toBe(201);
+        expect(res.headers.get("X-Response-Time")).toBe("1ms");
+        expect(order).toEqual(["outer:before", "short-circuit-style", "route:before", "handler", "route:after", "outer:after"]);
+    });
+
+    it("lets wrapping middleware see short-circuit and 404 responses", async () => {
+        const app = createApp();
+        app.use(async (_ctx, next) => {
+            const response = await next();
+            response.headers.set("X-Wrapped", String(response.status));
+            return response;
+        });
+        app.get("/blocked", () => jsonResponse({ error: "nope" }, 403));
+
+        const testApp = createTestApp(app);
+        expect((await testApp.get("/blocked")).headers.get("X-Wrapped")).toBe("403");
+        expect((await testApp.get("/missing")).headers.get("X-Wrapped")).toBe("404");
+    });
+
+    it("propagates handler errors through next() to onError", async () => {
+        const app = createApp({ onError: () => jsonResponse({ handled: true }, 500) });
+        let caught = false;
+        app.use(async (_ctx, next) => {
+            try {
+                return await next();
+            } catch (error) {
+                caught = true;
+                throw error;
+            }
+        });
+        app.get("/boom", () => {
+            throw new Error("boom");
+        });
+
+        const testApp = createTestApp(app);
+        const res = await testApp.get("/boom");
+        expect(caught).toBe(true);
+        expect(await res.json()).toEqual({ handled: true });
+    });
+
+    it("rejects calling next() twice", async () => {
+        const app = createApp({ onError: (error) => jsonResponse({ message: (error as Error).message }, 500) });
+        app.use(async (_ctx, next) => {
+            await next();
+            return next();
+        });
+        app.get("/", () => jsonResponse({ ok: true }));
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("/")).json()).toEqual({ message: "next() called multiple times" });
+    });
+
+    it("requires the final route handler to return a Response", async () => {
+        const app = createApp();
+        // @ts-expect-error a final handler that falls through never produces a response
+        app.get("/forgot", () => {});
+        app.get(
+            "/ok",
+            async () => {},
+            () => jsonResponse({ ok: true }),
+        );
+
+        const testApp = createTestApp(app);
+        expect((await testApp.get("/forgot")).status).toBe(500);
+        expect((await testApp.get("/ok")).status).toBe(200);
+    });
+});
+
+describe("typed context variables", () => {
+    it("shares values set by middleware with handlers through get/set and state", async () => {
+        const app = createApp<Record<string, unknown>, {}, { startedAt: number; tenant: string }>();
+        app.use((ctx) => {
+            ctx.set("startedAt", 1700000000000);
+            ctx.state.tenant = "acme";
+        });
+        app.get("/", (ctx) => jsonResponse({ startedAt: ctx.get("startedAt"), tenant: ctx.get("tenant"), state: ctx.state }));
+
+        const res = await createTestApp(app).get("/");
+        expect(await res.json()).toEqual({
+            startedAt: 1700000000000,
+            tenant: "acme",
+            state: { startedAt: 1700000000000, tenant: "acme" },
+        });
+    });
+
+    it("types variables declared by chained middleware", async () => {
+        const app = createApp()
+            .use(jsonMiddleware())
+            .use<{ requestedAt: string }>((ctx) => {
+                ctx.set("requestedAt", "now");
+            });
+        app.post("/", (ctx) => {
+            expectTypeOf(ctx.get("requestedAt")).toEqualTypeOf<string>();
+            return jsonResponse({ body: ctx.get("body"), requestedAt: ctx.get("requestedAt") });
+        });
+
+        const res = await createTestApp(app).post("/", { json: { a: 1 } });
+        expect(await res.json()).toEqual({ body: { a: 1 }, requestedAt: "now" });
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { createDatabase, createMigrator, parseMigrationFile, splitStatements, DatabaseError } from "../src/index";
+import type { Migration } from "../src/index";
+import { createMockD1 } from "../src/testing/index";
+
+const migrations: Migration[] = [
+    { version: 1, name: "create_users", up: "CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT);", down: "DROP TABLE users" },
+    { version: 2, name: "create_teams", up: ["CREATE TABLE teams (id INTEGER PRIMARY KEY)"], down: ["DROP TABLE teams"] },
+    { version: 3, name: "add_role", up: "ALTER TABLE users ADD COLUMN role TEXT; CREATE INDEX idx_users_role ON users (role);" },
+];
+
+function setup(list = migrations) {
+    const d1 = createMockD1();
+    const db = createDatabase({ binding: d1 as never });
+    return { d1, db, migrator: createMigrator(db, { migrations: list }) };
+}
+
+function executed(d1: ReturnType<typeof createMockD1>): string[] {
+    return d1._calls.filter((call) => call.method === "prepare.run").map((call) => call.args[0] as string);
+}
+
+describe("createMigrator", () => {
+    it("plans, applies and records migrations in order", async () => {
+        const { d1, migrator } = setup();
+
+        const plan = await migrator.migrate({ to: 2, dryRun: true });
+        expect(plan.steps.map((step) => [step.version, step.statements])).toEqual([
+            [1, ["CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT)"]],
+            [2, ["CREATE TABLE teams (id INTEGER PRIMARY KEY)"]],
+        ]);
+        expect(executed(d1)).toEqual([]);
+
+        await migrator.migrate({ to: 2 });
+        expect((await migrator.status()).map((entry) => [entry.version, entry.applied, entry.checksumMatches])).toEqual([
+            [1, true, true],
+            [2, true, true],
+            [3, false, undefined],
+        ]);
+
+        const result = await migrator.migrate();
+        expect(result.steps.map((step) => step.version)).toEqual([3]);
+        expect(executed(d1).filter((sql) => !sql.includes("_migrations"))).toEqual([
+            "CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT)",
+            "CREATE TABLE teams (id INTEGER PRIMARY KEY)",
+            "ALTER TABLE users ADD COLUMN role TEXT",
+            "CREATE INDEX idx_users_role ON users (role)",
+        ]);
+        expect((await migrator.migrate()).steps).toEqual([]);
+    });
+
+    it("rolls back to a version and refuses migrations without down", async () => {
+        const { d1, migrator } = setup(migrations.slice(0, 2));
+        await migrator.migrate();
+
+        const latest = await migrator.rollback({ dryRun: true });
+        expect(latest.steps.map((step) => [step.version, step.statements])).toEqual([[2, ["DROP TABLE teams"]]]);
+
+        await migrator.rollback({ to: 0 });
+        expect(executed(d1).slice(-4)).toEqual([
+            "DROP TABLE teams",
+            "DELETE FROM _migrations WHERE version = ?",
+            "DROP TABLE users",
+            "DELETE FROM _migrations WHERE version = ?",
+        ]);
+        expect((await migrator.status()).every((entry) => !entry.applied)).toBe(true);
+
+        const withoutDown = setup();
+        await withoutDown.migrator.migrate();
+        await expect(withoutDown.migrator.rollback({ to: 1 })).rejects.toThrow(/no down statements/);
+        expect((await withoutDown.migrator.status()).filter((entry) => entry.applied)).toHaveLength(3);
+    });
+
+    it("detects edited and missing migrations before running anything", async () => {
+        const { db, migrator } = setup();
+        await migrator.migrate({ to: 2 });
+
+        const edited = createMigrator(db, { migrations: [{ ...migrations[0]!, up: "CREATE TABLE users (id INTEGER PRIMARY KEY)" }, ...migrations.slice(1)] });
+        await expect(edited.migrate()).rejects.toThrow(/Checksum mismatch for migration 1/);
+        expect((await edited.status())[0]).toMatchObject({ version: 1, applied: true, checksumMatches: false });
+
+        const missing = createMigrator(db, { migrations: migrations.slice(1) });
+        await expect(missing.verify()).rejects.toThrow(DatabaseError);
+        expect((await missing.status()).map((entry) => entry.version)).toEqual([1, 2, 3]);
+
+        expect(() => createMigrator(db, { migrations: [migrations[0]!, { ...migrations[1]!, version: 1 }] })).toThrow(/Duplicate migration version/);
+        expect(() => createMigrator(db, { migrations: [{ ...migrations[0]!, version: 0 }] })).toThrow(DatabaseError);
+    });
+});
+
+describe("migration files", () => {
+    it("parses up and down sections from NNNN_name.sql files", () => {
+        const migration = parseMigrationFile(
+            "migrations/0007_add_role.sql",
+            "-- migrate:up\nALTER TABLE users ADD COLUMN role TEXT;\n-- migrate:down\nALTER TABLE users DROP COLUMN role;\n",
+        );
+        expect(migration).toMatchObject({ version: 7, name: "add_role" });
+        expect(splitStatements(migration.up as string)).toEqual(["ALTER TABLE users ADD COLUMN role TEXT"]);
+        expect(splitStatements(migration.down as string)).toEqual(["ALTER TABLE users DROP COLUMN role"]);
+
+        expect(parseMigrationFile("0001_init.sql", "CREATE TABLE a (id INTEGER);")).toEqual({ version: 1, name: "init", up: "CREATE TABLE a (id INTEGER);" });
+        expect(() => parseMigrationFile("init.sql", "")).toThrow(DatabaseError);
+    });
+
+    it("splits scripts without breaking quotes, comments or triggers", () => {
+        const script = `
+            -- seed; not a statement
+            INSERT INTO notes (body) VALUES ('a; b'), ('it''s');
+            /* block; comment */
+            CREATE TRIGGER touch AFTER UPDATE ON notes BEGIN
+                UPDATE notes SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+            END;
+            SELECT 1`;
+        const statements = splitStatements(script);
+        expect(statements).toHaveLength(3);
+        expect(statements[0]).toBe("INSERT INTO notes (body) VALUES ('a; b'), ('it''s')");
+        expect(statements[1]).toMatch(/^CREATE TRIGGER touch[\s\S]+WHERE id = NEW\.id;\s+END$/);
+        expect(statements[2]).toBe("SELECT 1");
+    });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
 import { createOAuth } from "../src/oauth/index";
+import { createTraceContext } from "../src/core/trace";
 
 afterEach(() => {
     vi.restoreAllMocks();
@@ -85,4 +86,41 @@ describe("createOAuth", () => {
         });
         expect(fetchMock).toHaveBeenCalled();
     });
+
+    it("passes the abort signal to provider requests", async () => {
+        const signals: Array<AbortSignal | null | undefined> = [];
+        vi.spyOn(globalThis, "fetch").mockImplementation(async (_input, init) => {
+            signals.push(init?.signal);
+            return new Response(JSON.stringify({ access_token: "fresh", expires_in: 60 }), { status: 200 });
+        });
+        const controller = new AbortController();
+        const oauth = createOAuth({
+            provider: "google",
+            clientId: "id",
+            clientSecret: "secret",
+            redirectUri: "https://app.example.com/callback",
+        }).withSignal(controller.signal);
+
+        const result = await oauth.refreshToken("refresh");
+        expect(result.accessToken).toBe("fresh");
+        expect(signals).toEqual([controller.signal]);
+    });
+
+    it("propagates the trace to provider requests", async () => {
+        const headers: Array<Record<string, string>> = [];
+        vi.spyOn(globalThis, "fetch").mockImplementation(async (_input, init) => {
+            headers.push(init?.headers as Record<string, string>);
+            return new Response(JSON.stringify({ access_token: "fresh", expires_in: 60 }), { status: 200 });
+        });
+        const oauth = createOAuth({
+            provider: "google",
+            clientId: "id",
+            clientSecret: "secret",
+            redirectUri: "https://app.example.com/callback",
+        }).withTrace(createTraceContext());
+
+        await oauth.refreshToken("refresh");
+        expect(headers[0]!.traceparent).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+        expect(headers[0]!["X-Request-Id"]).toBeTruthy();
+    });
 });
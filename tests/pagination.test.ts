@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { createApp, createDatabase, createValidator, paginatedResponse, paginationQuery, jsonResponse, v, ValidationError, ConfigError } from "../src/index";
+import { createMockExecutionContext } from "../src/testing/index";
+
+interface Post {
+    id: number;
+    created_at: string;
+    draft?: boolean;
+}
+
+const posts: Post[] = [5, 4, 3, 2, 1].map((id) => ({ id, created_at: `2026-01-0${Math.ceil(id / 2)}` }));
+
+/** Fake D1 that records statements and serves `rows`, with COUNT(*) answered from `total` */
+function fakeDb(rows: Post[], total = rows.length) {
+    const calls: Array<{ sql: string; params: unknown[] }> = [];
+    const binding = {
+        prepare: (sql: string) => ({
+            bind: (...params: unknown[]) => {
+                calls.push({ sql, params });
+                return {
+                    all: async () => ({ results: rows.slice(0, (params[params.length - 1] as number) ?? rows.length), success: true, meta: {} }),
+                    first: async () => (sql.includes("COUNT(*)") ? { count: total } : (rows[0] ?? null)),
+                };
+            },
+        }),
+    } as unknown as D1Database;
+    return { db: createDatabase({ binding, cursorSecret: "cursor-secret" }), calls };
+}
+
+describe("cursor pagination", () => {
+    it("pages by keyset with signed cursors", async () => {
+        const { db, calls } = fakeDb(posts);
+        const orderBy = { created_at: "desc", id: "desc" } as const;
+
+        const first = await db.paginate(db.from<Post>("posts").where({ draft: false }), { limit: 2, orderBy });
+        expect(first.data.map((post) => post.id)).toEqual([5, 4]);
+        expect(first.nextCursor).toMatch(/^[\w-]+\.[\w-]+$/);
+        expect(calls[0]).toEqual({ sql: "SELECT * FROM posts WHERE draft = ? ORDER BY created_at DESC, id DESC LIMIT ?", params: [false, 3] });
+
+        await db.paginate(db.from<Post>("posts").where({ draft: false }), { cursor: first.nextCursor, limit: 2, orderBy });
+        expect(calls[1]).toEqual({
+            sql: "SELECT * FROM posts WHERE (draft = ?) AND ((created_at < ? OR (created_at = ? AND id < ?))) ORDER BY created_at DESC, id DESC LIMIT ?",
+            params: [false, "2026-01-02", "2026-01-02", 4, 3],
+        });
+
+        const lastPage = fakeDb(posts.slice(0, 2)).db;
+        const last = await lastPage.paginate(lastPage.from<Post>("posts"), { limit: 2, orderBy });
+        expect(last.nextCursor).toBeNull();
+    });
+
+    it("rejects tampered, foreign and reordered cursors", async () => {
+        const { db } = fakeDb(posts);
+        const { nextCursor } = await db.paginate(db.from<Post>("posts"), { limit: 1, orderBy: { id: "asc" } });
+        const [payload, signature] = nextCursor!.split(".");
+        const forged = `${Buffer.from(JSON.stringify({ k: "id:asc", v: [0] })).toString("base64url")}.${signature}`;
+
+        for (const cursor of [forged, `${payload}.x${signature}`, "not-a-cursor"]) {
+            await expect(db.paginate(db.from<Post>("posts"), { cursor, orderBy: { id: "asc" } })).rejects.toThrow(ValidationError);
+        }
+        await expect(db.paginate(db.from<Post>("posts"), { cursor: nextCursor, orderBy: { id: "desc" } })).rejects.toThrow(ValidationError);
+        await expect(db.paginate(db.from<Post>("posts"), { cursor: nextCursor, orderBy: { id: "asc" }, secret: "other-secret" })).rejects.toThrow(
+            ValidationError,
+        );
+        await expect(db.paginate(db.from<Post>("posts"), { limit: 0, orderBy: { id: "asc" } })).rejects.toThrow(ValidationError);
+
+        const unsigned = createDatabase({ binding: {} as D1Database });
+        await expect(unsigned.paginate(unsigned.from("posts"), { orderBy: { id: "asc" } })).rejects.toThrow(ConfigError);
+    });
+});
+
+describe("offset pagination", () => {
+    it("returns totals and caps the page size", async () => {
+        const { db, calls } = fakeDb(posts, 45);
+
+        const page = await db.paginate(db.from<Post>("posts"), { page: 3, limit: 500, maxLimit: 20, orderBy: { id: "desc" } });
+        expect(page).toMatchObject({ page: 3, limit: 20, total: 45, totalPages: 3 });
+        expect(calls.map((call) => [call.sql, call.params])).toEqual([
+            ["SELECT * FROM posts ORDER BY id DESC LIMIT ? OFFSET ?", [20, 40]],
+            ["SELECT COUNT(*) AS count FROM posts", []],
+        ]);
+        await expect(db.paginate(db.from("posts"), { page: 0 })).rejects.toThrow(ValidationError);
+    });
+});
+
+describe("paginatedResponse", () => {
+    it("emits Link headers and page envelopes", async () => {
+        const cursorPage = paginatedResponse({ data: [{ id: 1 }], nextCursor: "abc.def", limit: 1 }, "https://api.example.com/posts?status=live&cursor=old");
+        expect(cursorPage.headers.get("Link")).toBe('<https://api.example.com/posts?status=live&cursor=abc.def&limit=1>; rel="next"');
+        expect(await cursorPage.json()).toEqual({ data: [{ id: 1 }], nextCursor: "abc.def" });
+
+        const offsetPage = paginatedResponse({ data: [], page: 2, limit: 10, total: 45, totalPages: 5 }, new URL("https://api.example.com/posts"), {
+            "Cache-Control": "no-store",
+        });
+        expect(offsetPage.headers.get("Link")).toBe(
+            [
+                '<https://api.example.com/posts?page=1&limit=10>; rel="first"',
+                '<https://api.example.com/posts?page=1&limit=10>; rel="prev"',
+                '<https://api.example.com/posts?page=3&limit=10>; rel="next"',
+                '<https://api.example.com/posts?page=5&limit=10>; rel="last"',
+            ].join(", "),
+        );
+        expect(offsetPage.headers.get("X-Total-Count")).toBe("45");
+        expect(offsetPage.headers.get("Cache-Control")).toBe("no-store");
+        expect(await offsetPage.json()).toEqual({ data: [], page: 2, limit: 10, total: 45, totalPages: 5 });
+    });
+
+    it("validates pagination query strings with createValidator", async () => {
+        const app = createApp();
+        app.get(
+            "/posts",
+            createValidator({ query: v.object({ ...paginationQuery({ maxLimit: 50 }), status: v.string().optional() }), coerceQuery: true }),
+            (ctx) => jsonResponse({ query: (ctx as { validatedQuery?: unknown }).validatedQuery }),
+        );
+        const get = (query: string) => app.fetch(new Request(`https://example.com/posts${query}`), {}, createMockExecutionContext());
+
+        const ok = await get("?limit=25&cursor=abc.def&status=live");
+        expect(await ok.json()).toEqual({ query: { limit: 25, cursor: "abc.def", status: "live" } });
+        expect((await get("?limit=500")).status).toBe(422);
+        expect((await get("?page=0")).status).toBe(422);
+    });
+});
@@ -76,3 +76,115 @@ describe("plugins", () => {
         expect(onError).toHaveBeenCalledOnce();
     });
 });
+
+describe("app lifecycle", () => {
+    const silentLogger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+    it("installs plugins with the app logger and config, then emits app:init once", async () => {
+        const seen: unknown[] = [];
+        const plugin = definePlugin({
+            name: "lifecycle",
+            version: "1.0.0",
+            install(context) {
+                seen.push(["install", context.config, context.logger === silentLogger]);
+            },
+            hooks: {
+                "app:init": (app) => {
+                    seen.push(["init", app.config]);
+                },
+            },
+        });
+
+        const app = createApp({ plugins: [plugin], logger: silentLogger, config: { region: "eu" } });
+        app.get("/", () => jsonResponse({ ok: true }));
+
+        const testApp = createTestApp(app);
+        await Promise.all([testApp.get("/"), testApp.get("/")]);
+        await testApp.get("/");
+        expect(seen).toEqual([
+            ["install", { region: "eu" }, true],
+            ["init", { region: "eu" }],
+        ]);
+    });
+
+    it("answers 503 when initialization fails and retries on the next request", async () => {
+        let attempts = 0;
+        const plugin = definePlugin({
+            name: "flaky",
+            version: "1.0.0",
+            install() {},
+            hooks: {
+                "app:init": () => {
+                    attempts++;
+                    if (attempts === 1) throw new Error("binding missing");
+                },
+            },
+        });
+
+        const app = createApp({ plugins: [plugin], logger: silentLogger });
+        app.get("/", () => jsonResponse({ ok: true }));
+
+        const testApp = createTestApp(app);
+        const failed = await testApp.get("/");
+        expect(failed.status).toBe(503);
+        expect(await failed.json()).toMatchObject({ error: { code: "APP_INIT_FAILED" } });
+        expect(silentLogger.error).toHaveBeenCalledWith("App initialization failed", { error: "app:init hook failed: binding missing" });
+
+        expect((await testApp.get("/")).status).toBe(200);
+        expect(attempts).toBe(2);
+    });
+
+    it("emits app:shutdown through waitUntil and re-initializes afterwards", async () => {
+        const events: string[] = [];
+        const plugin = definePlugin({
+            name: "closable",
+            version: "1.0.0",
+            install() {},
+            hooks: {
+                "app:init": () => {
+                    events.push("init");
+                },
+                "app:shutdown": () => {
+                    events.push("shutdown");
+                },
+            },
+        });
+
+        const app = createApp({ plugins: [plugin], logger: silentLogger });
+        app.get("/", () => jsonResponse({ ok: true }));
+        const testApp = createTestApp(app);
+        await testApp.get("/");
+
+        const waitUntil = vi.fn();
+        await app.shutdown({ waitUntil, passThroughOnException: () => undefined } as unknown as ExecutionContext);
+        expect(waitUntil).toHaveBeenCalledOnce();
+
+        await testApp.get("/");
+        expect(events).toEqual(["init", "shutdown", "init"]);
+    });
+
+    it("schedules app:flush through waitUntil after every response", async () => {
+        let flushes = 0;
+        const plugin = definePlugin({
+            name: "buffered",
+            version: "1.0.0",
+            install() {},
+            hooks: {
+                "app:flush": () => {
+                    flushes++;
+                },
+            },
+        });
+
+        const app = createApp({ plugins: [plugin], logger: silentLogger });
+        app.get("/", () => jsonResponse({ ok: true }));
+        const pending: Promise<unknown>[] = [];
+        const ctx = { waitUntil: (promise: Promise<unknown>) => pending.push(promise), passThroughOnException: () => undefined } as unknown as ExecutionContext;
+
+        await app.fetch(new Request("https://example.com/"), {}, ctx);
+        await app.fetch(new Request("https://example.com/missing"), {}, ctx);
+        await Promise.all(pending);
+        expect(pending).toHaveLength(2);
+        expect(flushes).toBe(2);
+    });
+});
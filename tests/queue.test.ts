@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from "vitest";
 import { createQueue, createQueueConsumer } from "../src/queue/index";
+import { createMockExecutionContext } from "../src/testing/index";
 
 function createMockQueueBinding() {
     const sent: unknown[] = [];
@@ -85,7 +86,7 @@ describe("createQueueConsumer", () => {
                 ],
             },
             {},
-            { waitUntil() {}, passThroughOnException() {} } as ExecutionContext,
+            createMockExecutionContext(),
         );
 
         expect(processed).toEqual([{ n: 1 }, { n: 2 }]);
@@ -116,7 +117,7 @@ describe("createQueueConsumer", () => {
                 ],
             },
             {},
-            { waitUntil() {}, passThroughOnException() {} } as ExecutionContext,
+            createMockExecutionContext(),
         );
 
         expect(seen).toEqual({
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { negotiate, createSerializerRegistry, htmlResponse, textResponse, fileResponse, notModified } from "../src/index";
+
+const rows = [
+    { id: 1, name: "Ada", note: 'says "hi", twice' },
+    { id: 2, name: "Linus", team: "kernel" },
+];
+
+function ctx(accept?: string) {
+    return { request: new Request("https://example.com/users", { headers: accept ? { Accept: accept } : {} }) };
+}
+
+describe("negotiate", () => {
+    it("defaults to JSON and sets Vary: Accept", async () => {
+        const res = await negotiate(ctx(), rows);
+        expect(res.headers.get("Content-Type")).toBe("application/json");
+        expect(res.headers.get("Vary")).toBe("Accept");
+        expect(await res.json()).toEqual(rows);
+    });
+
+    it("honors q-values and specificity", async () => {
+        const res = await negotiate(ctx("application/json;q=0.5, text/csv"), rows);
+        expect(res.headers.get("Content-Type")).toBe("text/csv; charset=utf-8");
+        expect(await res.text()).toBe('id,name,note,team\r\n1,Ada,"says ""hi"", twice",\r\n2,Linus,,kernel\r\n');
+
+        const html = await negotiate(ctx("text/*;q=0.9, text/html, */*;q=0.1"), { a: "<b>" });
+        expect(html.headers.get("Content-Type")).toBe("text/html; charset=utf-8");
+        expect(await html.text()).toContain("&lt;b&gt;");
+    });
+
+    it("renders NDJSON and XML", async () => {
+        const ndjson = await negotiate(ctx("application/x-ndjson"), rows);
+        expect(await ndjson.text()).toBe(rows.map((row) => JSON.stringify(row)).join("\n") + "\n");
+
+        const xml = await negotiate(ctx("text/xml"), { users: [{ name: "A&B" }], "1st": true });
+        expect(await xml.text()).toBe(
+            '<?xml version="1.0" encoding="UTF-8"?>\n<response><users><item><name>A&amp;B</name></item></users><_1st>true</_1st></response>',
+        );
+    });
+
+    it("encodes MessagePack", async () => {
+        const res = await negotiate(ctx("application/msgpack"), { a: 1, b: [true, null], c: "hi", d: -1, e: 1.5, f: 300 });
+        const bytes = new Uint8Array(await res.arrayBuffer());
+        expect([...bytes]).toEqual([
+            0x86, 0xa1, 0x61, 0x01, 0xa1, 0x62, 0x92, 0xc3, 0xc0, 0xa1, 0x63, 0xa2, 0x68, 0x69, 0xa1, 0x64, 0xff, 0xa1, 0x65, 0xcb, 0x3f, 0xf8, 0, 0, 0, 0, 0,
+            0, 0xa1, 0x66, 0xcd, 0x01, 0x2c,
+        ]);
+    });
+
+    it("responds 406 when nothing acceptable is registered", async () => {
+        const res = await negotiate(ctx("image/png"), rows);
+        expect(res.status).toBe(406);
+        expect(await res.json()).toMatchObject({ error: "Not Acceptable" });
+    });
+
+    it("supports custom registries and replacing formats", async () => {
+        const registry = createSerializerRegistry([]).register({
+            mediaType: "text/plain",
+            serialize: (data) => `${(data as unknown[]).length} rows`,
+        });
+        const res = await negotiate(ctx("*/*"), rows, { registry, status: 203, headers: { "X-Format": "custom" } });
+        expect(res.status).toBe(203);
+        expect(res.headers.get("X-Format")).toBe("custom");
+        expect(await res.text()).toBe("2 rows");
+    });
+});
+
+describe("response helpers", () => {
+    it("creates HTML and text responses", async () => {
+        expect(htmlResponse("<p>hi</p>").headers.get("Content-Type")).toBe("text/html; charset=utf-8");
+        const text = textResponse("nope", 404);
+        expect(text.status).toBe(404);
+        expect(await text.text()).toBe("nope");
+    });
+
+    it("creates file responses with download headers", async () => {
+        const res = fileResponse("a,b", {
+            contentType: "text/csv",
+            filename: "résumé.csv",
+            etag: '"abc"',
+            lastModified: new Date(0),
+            size: 3,
+        });
+        expect(res.headers.get("Content-Disposition")).toBe("attachment; filename=\"r_sum_.csv\"; filename*=UTF-8''r%C3%A9sum%C3%A9.csv");
+        expect(res.headers.get("ETag")).toBe('"abc"');
+        expect(res.headers.get("Last-Modified")).toBe("Thu, 01 Jan 1970 00:00:00 GMT");
+        expect(res.headers.get("Content-Length")).toBe("3");
+        expect(await res.text()).toBe("a,b");
+    });
+
+    it("creates 304 responses", () => {
+        const res = notModified({ ETag: '"abc"' });
+        expect(res.status).toBe(304);
+        expect(res.body).toBeNull();
+        expect(res.headers.get("ETag")).toBe('"abc"');
+    });
+});
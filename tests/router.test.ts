@@ -1,4 +1,4 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, expectTypeOf } from "vitest";
 import { createApp, parseRoutePattern } from "../src/core/app";
 import { jsonResponse } from "../src/core/response";
 import { createTestApp } from "../src/testing/index";
@@ -97,3 +97,271 @@ describe("createApp routing", () => {
         expect(await res.json()).toEqual({ authed: true });
     });
 });
+
+describe("route tree matching", () => {
+    it("prefers static segments over params and wildcards regardless of order", async () => {
+        const app = createApp();
+        app.get("/files/*", () => jsonResponse({ route: "wildcard" }));
+        app.get("/files/:name", (ctx) => jsonResponse({ route: "param", name: ctx.params.name }));
+        app.get("/files/latest", () => jsonResponse({ route: "static" }));
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("/files/latest")).json()).toEqual({ route: "static" });
+        expect(await (await testApp.get("/files/report.pdf")).json()).toEqual({ route: "param", name: "report.pdf" });
+        expect(await (await testApp.get("/files/a/b")).json()).toEqual({ route: "wildcard" });
+    });
+
+    it("backtracks into params when a static branch has no match deeper down", async () => {
+        const app = createApp();
+        app.get("/users/me", () => jsonResponse({ route: "me" }));
+        app.get("/users/:id/posts", (ctx) => jsonResponse({ id: ctx.params.id }));
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("/users/me/posts")).json()).toEqual({ id: "me" });
+    });
+
+    it("supports params embedded in a segment", async () => {
+        const app = createApp();
+        app.get("/api/v:version/status", (ctx) => jsonResponse({ version: ctx.params.version }));
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("/api/v2/status")).json()).toEqual({ version: "2" });
+    });
+
+    it("collects Allow methods from every matching route", async () => {
+        const app = createApp();
+        app.get("/items/:id", () => jsonResponse({ ok: true }));
+        app.put("/items/special", () => jsonResponse({ ok: true }));
+        app.delete("/items/*", () => jsonResponse({ ok: true }));
+
+        const testApp = createTestApp(app);
+        const res = await testApp.post("/items/special");
+        expect(res.status).toBe(405);
+        expect(res.headers.get("Allow")).toBe("GET, PUT, DELETE, HEAD, OPTIONS");
+    });
+
+    it("returns 404 for unmatched paths", async () => {
+        const app = createApp();
+        app.get("/users/:id", () => jsonResponse({ ok: true }));
+
+        const testApp = createTestApp(app);
+        expect((await testApp.get("/users")).status).toBe(404);
+        expect((await testApp.get("/users/1/extra")).status).toBe(404);
+    });
+});
+
+describe("route constraints and optional segments", () => {
+    it("matches optional segments with and without the param", async () => {
+        const app = createApp();
+        app.get("/files/:name?", (ctx) => jsonResponse({ params: ctx.params }));
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("/files")).json()).toEqual({ params: {} });
+        expect(await (await testApp.get("/files/report")).json()).toEqual({ params: { name: "report" } });
+    });
+
+    it("falls through to later routes when a constraint fails", async () => {
+        const app = createApp();
+        app.get("/users/:id{[0-9]+}", (ctx) => jsonResponse({ route: "numeric", id: ctx.params.id }));
+        app.get("/users/:handle", (ctx) => jsonResponse({ route: "handle", handle: ctx.params.handle }));
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("/users/42")).json()).toEqual({ route: "numeric", id: "42" });
+        expect(await (await testApp.get("/users/alice")).json()).toEqual({ route: "handle", handle: "alice" });
+    });
+
+    it("captures multi-segment named splats", async () => {
+        const app = createApp();
+        app.get("/docs/:path+", (ctx) => jsonResponse({ path: ctx.params.path }));
+        app.get("/tree/:path*/raw", (ctx) => jsonResponse({ path: ctx.params.path }));
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("/docs/guide/routing/intro")).json()).toEqual({ path: "guide/routing/intro" });
+        expect((await testApp.get("/docs")).status).toBe(404);
+        expect(await (await testApp.get("/tree/a/b/raw")).json()).toEqual({ path: "a/b" });
+        expect(await (await testApp.get("/tree/raw")).json()).toEqual({ path: "" });
+    });
+
+    it("matches file extensions", async () => {
+        const app = createApp();
+        app.get("/reports/:id.pdf", (ctx) => jsonResponse({ route: "pdf", id: ctx.params.id }));
+        app.get("/images/:name.:ext{png|jpe?g}", (ctx) => jsonResponse(ctx.params));
+        app.get("/data/:name.:format?", (ctx) => jsonResponse(ctx.params));
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("/reports/q3.pdf")).json()).toEqual({ route: "pdf", id: "q3" });
+        expect(await (await testApp.get("/images/cat.jpeg")).json()).toEqual({ name: "cat", ext: "jpeg" });
+        expect((await testApp.get("/images/cat.gif")).status).toBe(404);
+        expect(await (await testApp.get("/data/users.csv")).json()).toEqual({ name: "users", format: "csv" });
+        expect(await (await testApp.get("/data/users")).json()).toEqual({ name: "users" });
+    });
+
+    it("infers optional and constrained params", () => {
+        const app = createApp();
+        app.get("/files/:name?", (ctx) => {
+            expectTypeOf(ctx.params).toEqualTypeOf<{ name?: string }>();
+            return jsonResponse(ctx.params);
+        });
+        app.get("/users/:id{[0-9]+}/docs/:path+", (ctx) => {
+            expectTypeOf(ctx.params).toEqualTypeOf<{ id: string; path: string }>();
+            return jsonResponse(ctx.params);
+        });
+    });
+});
+
+describe("host routing", () => {
+    it("routes by host and exposes host params", async () => {
+        const app = createApp();
+        app.host("admin.example.com", (router) => {
+            router.get("/", () => jsonResponse({ site: "admin" }));
+        });
+        app.host(":tenant.app.example.com", (router) => {
+            router.group("/projects", (projects) => {
+                projects.get("/:id", (ctx) => {
+                    expectTypeOf(ctx.params).toEqualTypeOf<{ tenant: string; id: string }>();
+                    return jsonResponse(ctx.params);
+                });
+            });
+        });
+        app.get("/", () => jsonResponse({ site: "default" }));
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("https://admin.example.com/")).json()).toEqual({ site: "admin" });
+        expect(await (await testApp.get("https://Acme.app.example.com/projects/7")).json()).toEqual({ tenant: "acme", id: "7" });
+        expect(await (await testApp.get("https://www.example.com/")).json()).toEqual({ site: "default" });
+    });
+
+    it("falls through to host-less routes when the host has no matching route", async () => {
+        const app = createApp();
+        app.host("*.example.com", (router) => {
+            router.get("/status", () => jsonResponse({ route: "host" }));
+        });
+        app.get("/health", () => jsonResponse({ route: "default" }));
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("https://api.eu.example.com/status")).json()).toEqual({ route: "host" });
+        expect(await (await testApp.get("https://api.example.com/health")).json()).toEqual({ route: "default" });
+        expect((await testApp.get("https://other.test/status")).status).toBe(404);
+        expect((await testApp.post("https://api.example.com/status")).headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+    });
+});
+
+describe("automatic HEAD and OPTIONS", () => {
+    it("answers HEAD from the GET handler without a body", async () => {
+        const app = createApp();
+        app.get("/users/:id", (ctx) => jsonResponse({ id: ctx.params.id }, 200, { "X-User": ctx.params.id }));
+
+        const res = await createTestApp(app).request("HEAD", "/users/7");
+        expect(res.status).toBe(200);
+        expect(res.headers.get("X-User")).toBe("7");
+        expect(res.body).toBe("");
+    });
+
+    it("lists Allow from the route table for OPTIONS", async () => {
+        const app = createApp();
+        app.get("/items", () => jsonResponse([]));
+        app.post("/items", () => jsonResponse({ ok: true }, 201));
+
+        const testApp = createTestApp(app);
+        const res = await testApp.request("OPTIONS", "/items");
+        expect(res.status).toBe(204);
+        expect(res.headers.get("Allow")).toBe("GET, POST, HEAD, OPTIONS");
+        expect((await testApp.request("OPTIONS", "/missing")).status).toBe(404);
+    });
+
+    it("prefers explicit HEAD and OPTIONS routes", async () => {
+        const app = createApp();
+        app.get("/files/:name", () => jsonResponse({ route: "get" }));
+        app.head("/files/:name", () => new Response(null, { status: 200, headers: { "X-Route": "head" } }));
+        app.options("/files/:name", () => new Response(null, { status: 200, headers: { Allow: "GET, HEAD" } }));
+
+        const testApp = createTestApp(app);
+        expect((await testApp.request("HEAD", "/files/a")).headers.get("X-Route")).toBe("head");
+        expect((await testApp.request("OPTIONS", "/files/a")).headers.get("Allow")).toBe("GET, HEAD");
+    });
+});
+
+describe("typed route params", () => {
+    it("infers params from path literals, including group prefixes", async () => {
+        const app = createApp();
+        app.get("/users/:id/posts/:postId", (ctx) => {
+            expectTypeOf(ctx.params).toEqualTypeOf<{ id: string; postId: string }>();
+            return jsonResponse(ctx.params);
+        });
+        app.get("/assets/*", (ctx) => {
+            expectTypeOf(ctx.params).toEqualTypeOf<{ "*": string }>();
+            return jsonResponse(ctx.params);
+        });
+        app.group("/orgs/:orgId", (router) => {
+            router.get("/members/:memberId", (ctx) => {
+                expectTypeOf(ctx.params).toEqualTypeOf<{ orgId: string; memberId: string }>();
+                return jsonResponse(ctx.params);
+            });
+        });
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("/users/1/posts/2")).json()).toEqual({ id: "1", postId: "2" });
+        expect(await (await testApp.get("/orgs/acme/members/7")).json()).toEqual({ orgId: "acme", memberId: "7" });
+    });
+});
+
+describe("nested groups and mounted apps", () => {
+    it("nests groups and inherits parent group middleware", async () => {
+        const app = createApp();
+        app.group("/api", (api) => {
+            api.use(async (ctx) => {
+                ctx.state.trail = ["api"];
+            });
+            api.group("/v1", (v1) => {
+                v1.use(async (ctx) => {
+                    (ctx.state.trail as string[]).push("v1");
+                });
+                v1.get("/users/:id", (ctx) => jsonResponse({ id: ctx.params.id, trail: ctx.state.trail }));
+            });
+        });
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("/api/v1/users/7")).json()).toEqual({ id: "7", trail: ["api", "v1"] });
+    });
+
+    it("mounts an app under a prefix with its own middleware and onError", async () => {
+        const admin = createApp({ onError: () => jsonResponse({ handledBy: "admin" }, 500) });
+        admin.use(async (ctx) => {
+            ctx.state.admin = true;
+        });
+        admin.get("/", () => jsonResponse({ root: true }));
+        admin.get("/users/:id", (ctx) => jsonResponse({ id: ctx.params.id, admin: ctx.state.admin, path: ctx.url.pathname }));
+        admin.get("/boom", () => {
+            throw new Error("boom");
+        });
+
+        const app = createApp({ onError: () => jsonResponse({ handledBy: "root" }, 500) });
+        app.get("/admin/health", () => jsonResponse({ parent: true }));
+        app.route("/admin", admin);
+
+        const testApp = createTestApp(app);
+        expect(await (await testApp.get("/admin/users/3")).json()).toEqual({ id: "3", admin: true, path: "/admin/users/3" });
+        expect(await (await testApp.get("/admin")).json()).toEqual({ root: true });
+        expect(await (await testApp.get("/admin/health")).json()).toEqual({ parent: true });
+        expect(await (await testApp.get("/admin/boom")).json()).toEqual({ handledBy: "admin" });
+
+        const missing = await testApp.get("/admin/nope");
+        expect(missing.status).toBe(404);
+        expect(await missing.json()).toMatchObject({ path: "/nope" });
+    });
+
+    it("installs plugins of the mounted app on first dispatch", async () => {
+        const installed: string[] = [];
+        const sub = createApp({
+            plugins: [{ name: "sub-plugin", version: "1.0.0", install: () => void installed.push("sub") }],
+        });
+        sub.get("/ping", () => jsonResponse({ pong: true }));
+
+        const app = createApp();
+        app.group("/svc", (router) => router.route("/sub", sub));
+
+        const testApp = createTestApp(app);
+        expect((await testApp.get("/svc/sub/ping")).status).toBe(200);
+        expect(installed).toEqual(["sub"]);
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { createApp, createServices, jsonResponse, ConfigError } from "../src/index";
+import { createTestApp, createMockExecutionContext } from "../src/testing/index";
+
+describe("createServices", () => {
+    it("resolves services lazily and only when accessed", () => {
+        const built: string[] = [];
+        const services = createServices()
+            .register("a", () => {
+                built.push("a");
+                return "A";
+            })
+            .register("b", ({ services }) => {
+                built.push("b");
+                return `${services.a}B`;
+            });
+
+        const scope = services.scope({});
+        expect(built).toEqual([]);
+        expect(scope.b).toBe("AB");
+        expect(built).toEqual(["b", "a"]);
+    });
+
+    it("reuses instances according to their lifetime", () => {
+        let counter = 0;
+        const services = createServices()
+            .register("singleton", () => ++counter, { lifetime: "singleton" })
+            .register("isolate", () => ++counter)
+            .register("request", () => ++counter, { lifetime: "request" });
+
+        const envA = {};
+        const envB = {};
+        const first = services.scope(envA);
+        const second = services.scope(envA);
+        const other = services.scope(envB);
+
+        expect(first.singleton).toBe(other.singleton);
+        expect(first.isolate).toBe(second.isolate);
+        expect(first.isolate).not.toBe(other.isolate);
+        expect(first.request).toBe(first.request);
+        expect(first.request).not.toBe(second.request);
+    });
+
+    it("rejects duplicate names and circular dependencies", () => {
+        const services = createServices().register("a", () => 1);
+        expect(() => services.register("a" as string, () => 2)).toThrow(ConfigError);
+
+        const circular = createServices()
+            .register("x", ({ services }) => (services as { y: unknown }).y)
+            .register("y", ({ services }) => services.x);
+        expect(() => circular.scope({}).x).toThrow("Circular service dependency: x -> y -> x");
+    });
+
+    it("keeps longer-lived services from capturing shorter-lived ones or the request", () => {
+        const seen: Array<Request | undefined> = [];
+        const services = createServices()
+            .register("session", ({ request }) => request?.url, { lifetime: "request" })
+            .register("config", ({ request }) => seen.push(request), { lifetime: "singleton" })
+            .register("perIsolate", () => ({}))
+            .register("leaky", ({ services }) => services.session, { lifetime: "singleton" })
+            .register("cached", ({ services }) => services.perIsolate, { lifetime: "singleton" })
+            .register("user", ({ services }) => `${services.session}:${services.config}`, { lifetime: "request" });
+
+        const scope = services.scope({}, new Request("https://example.com/a"));
+        expect(scope.user).toBe("https://example.com/a:1");
+        expect(seen).toEqual([undefined]);
+        expect(() => scope.leaky).toThrow('A singleton service cannot depend on the shorter-lived request service "session"');
+        expect(() => scope.cached).toThrow(ConfigError);
+    });
+
+    it("exposes services to handlers as ctx.services", async () => {
+        const services = createServices<{ GREETING: string }>()
+            .register("greeting", ({ env }) => env.GREETING)
+            .register("path", ({ request }) => new URL(request!.url).pathname, { lifetime: "request" });
+
+        const app = createApp({ services });
+        app.get("/hello", (ctx) => jsonResponse({ greeting: ctx.services.greeting, path: ctx.services.path }));
+
+        const res = await app.fetch(new Request("https://example.com/hello"), { GREETING: "hi" }, createMockExecutionContext());
+        expect(await res.json()).toEqual({ greeting: "hi", path: "/hello" });
+    });
+
+    it("gives apps without a container an empty services object", async () => {
+        const app = createApp();
+        app.get("/", (ctx) => jsonResponse({ services: ctx.services }));
+
+        expect(await (await createTestApp(app).get("/")).json()).toEqual({ services: {} });
+    });
+});
@@ -81,10 +81,12 @@ describe("openapi attach preserves middleware", () => {
     it("keeps requireAuth after attach", async () => {
         const auth = createAuth({ secret: "a".repeat(32) });
         const app = createApp();
-        const openapi = createOpenAPI({ info: { title: "t", version: "1" } });
+        const openapi = createOpenAPI({ title: "t", version: "1" });
         openapi.attach(app);
 
-        app.get("/secure", defineRoute({ summary: "secure" }), requireAuth(auth), (ctx) => jsonResponse({ user: ctx.state.user }));
+        app.get("/secure", defineRoute({ summary: "secure", responses: { "200": { description: "ok" } } }), requireAuth(auth), (ctx) =>
+            jsonResponse({ user: ctx.state.user }),
+        );
 
         const testApp = createTestApp(app);
         const denied = await testApp.get("/secure");